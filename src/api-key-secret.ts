@@ -0,0 +1,65 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import Service from "serverless/classes/Service";
+import { Configuration } from "./env";
+
+export const managedApiKeySecretLogicalId = "DatadogApiKeySecret";
+const managedApiKeyParameterName = "DatadogApiKey";
+
+/**
+ * Returns the ARN of the secret the functions read the Datadog API key from, which is a reference to the
+ * secret added by the plugin when `apiKeyStorage` is `managedSecret`.
+ */
+export function getApiKeySecretArn(config: Configuration): string | { Ref: string } | undefined {
+  if (config.apiKeyStorage === "managedSecret") {
+    return { Ref: managedApiKeySecretLogicalId };
+  }
+  return config.apiKeySecretArn;
+}
+
+/**
+ * Adds the secret storing the Datadog API key to the compiled CloudFormation template. The template is uploaded
+ * to S3 and shown in the CloudFormation console, so the secret is created from a `NoEcho` stack parameter, which
+ * `setManagedApiKeyParameter` sets to the API key when the stack is updated.
+ */
+export function addManagedApiKeySecret(service: Service) {
+  const template = service.provider.compiledCloudFormationTemplate;
+  if (template?.Resources === undefined) {
+    return;
+  }
+  (template as any).Parameters = {
+    ...(template as any).Parameters,
+    [managedApiKeyParameterName]: {
+      Type: "String",
+      NoEcho: true,
+      Description: `Datadog API key stored in the ${managedApiKeySecretLogicalId} secret`,
+    },
+  };
+  template.Resources[managedApiKeySecretLogicalId] = {
+    Type: "AWS::SecretsManager::Secret",
+    Properties: {
+      Description: `Datadog API key used by the functions of ${service.getServiceName()}`,
+      SecretString: { Ref: managedApiKeyParameterName },
+    },
+  };
+}
+
+/**
+ * Passes the Datadog API key to the stack update as the parameter the secret added by `addManagedApiKeySecret`
+ * is created from. Only set when the stack is updated, after the service state has been written and uploaded,
+ * so the API key isn't stored in the deployment bucket.
+ */
+export function setManagedApiKeyParameter(service: Service, apiKey: string) {
+  const provider = service.provider as any;
+  const stackParameters: { ParameterKey: string; ParameterValue: string }[] = provider.stackParameters ?? [];
+  provider.stackParameters = [
+    ...stackParameters.filter(({ ParameterKey }) => ParameterKey !== managedApiKeyParameterName),
+    { ParameterKey: managedApiKeyParameterName, ParameterValue: apiKey },
+  ];
+}
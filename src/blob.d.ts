@@ -0,0 +1,11 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+// The typings of jszip reference the DOM `Blob` type in the signatures of its browser only inputs and outputs,
+// which aren't used by the plugin, and the DOM library isn't part of the compilation
+interface Blob {}
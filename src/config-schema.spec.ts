@@ -0,0 +1,104 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import { datadogConfigSchema, datadogFunctionConfigSchema, getConfigurationErrors } from "./config-schema";
+import { defaultConfiguration } from "./env";
+
+describe("getConfigurationErrors", () => {
+  it("returns no errors for the default configuration", () => {
+    expect(getConfigurationErrors(defaultConfiguration)).toEqual([]);
+  });
+
+  it("declares every key of the default configuration in the schema", () => {
+    const knownKeys = Object.keys(datadogConfigSchema.properties);
+    for (const key of Object.keys(defaultConfiguration)) {
+      expect(knownKeys).toContain(key);
+    }
+  });
+
+  it("suggests the closest key for misspelled keys", () => {
+    expect(getConfigurationErrors({ enableDDTraicng: false })).toEqual([
+      "Unknown configuration key `enableDDTraicng`. Did you mean `enableDDTracing`?",
+    ]);
+  });
+
+  it("does not suggest a key when no key is close to the unknown one", () => {
+    expect(getConfigurationErrors({ somethingElseEntirely: true })).toEqual([
+      "Unknown configuration key `somethingElseEntirely`.",
+    ]);
+  });
+
+  it("reports values of the wrong type", () => {
+    expect(getConfigurationErrors({ addExtension: "false" })).toEqual([
+      '`addExtension` must be of type boolean, but received string "false".',
+    ]);
+  });
+
+  it("reports array items of the wrong type", () => {
+    expect(getConfigurationErrors({ exclude: ["first-function", 2] })).toEqual([
+      "`exclude[1]` must be of type string or object, but received number 2.",
+    ]);
+  });
+
+  it("validates the keys of nested objects", () => {
+    expect(
+      getConfigurationErrors({ include: [{ runtme: "python3.*", architecture: "arm", tags: { datadog: 0 } }] }),
+    ).toEqual([
+      "Unknown configuration key `include[0].runtme`. Did you mean `runtime`?",
+      '`include[0].architecture` must be one of x86_64, arm64, but received "arm".',
+      "`include[0].tags.datadog` must be of type string, but received number 0.",
+    ]);
+  });
+
+  it("accepts custom handlers keyed by runtime family and function name", () => {
+    expect(
+      getConfigurationErrors({ customHandler: { node: "wrapper.handler", functions: { first: "first.handler" } } }),
+    ).toEqual([]);
+    expect(getConfigurationErrors({ customHandler: { nodejs: "wrapper.handler" } })).toEqual([
+      "Unknown configuration key `customHandler.nodejs`. Did you mean `node`?",
+    ]);
+  });
+
+  it("accepts numeric api keys", () => {
+    expect(getConfigurationErrors({ apiKey: 1234, appKey: "5678" })).toEqual([]);
+  });
+
+  it("reports invalid enum values", () => {
+    expect(getConfigurationErrors({ logLevel: "verbose", site: "datadoghq.io" })).toEqual([
+      '`logLevel` must be one of trace, debug, info, warn, error, critical, off, but received "verbose".',
+      '`site` must be one of datadoghq.com, datadoghq.eu, us3.datadoghq.com, us5.datadoghq.com, ddog-gov.com, but received "datadoghq.io".',
+    ]);
+  });
+
+  it("compares enum values case insensitively", () => {
+    expect(getConfigurationErrors({ logLevel: "DEBUG", site: "DatadogHQ.eu" })).toEqual([]);
+  });
+
+  it("compares the values of other enums case sensitively", () => {
+    expect(getConfigurationErrors({ apiKeyStorage: "managedsecret" })).toEqual([
+      '`apiKeyStorage` must be one of environment, managedSecret, but received "managedsecret".',
+    ]);
+  });
+
+  it("ignores undefined values", () => {
+    expect(getConfigurationErrors({ logLevel: undefined })).toEqual([]);
+  });
+
+  it("reports every error at once", () => {
+    expect(getConfigurationErrors({ addLayer: true, flushMetricsToLogs: "true" })).toEqual([
+      "Unknown configuration key `addLayer`. Did you mean `addLayers`?",
+      '`flushMetricsToLogs` must be of type boolean, but received string "true".',
+    ]);
+  });
+
+  it("only accepts function level keys in the datadog block of a function", () => {
+    expect(
+      getConfigurationErrors({ enableDDTracing: false, forwarderArn: "some-arn" }, datadogFunctionConfigSchema),
+    ).toEqual(["Unknown configuration key `forwarderArn`."]);
+  });
+});
@@ -0,0 +1,300 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+type SchemaType = "array" | "boolean" | "number" | "object" | "string";
+
+interface TypedSchema {
+  type: SchemaType;
+  enum?: string[];
+  items?: PropertySchema;
+  properties?: { [key: string]: PropertySchema };
+  additionalProperties?: PropertySchema | boolean;
+}
+
+// The Serverless Framework compiles schemas in strict mode, which rejects union types
+// such as `type: ["string", "number"]`, so unions are expressed with `anyOf` instead.
+interface UnionSchema {
+  anyOf: TypedSchema[];
+}
+
+export type PropertySchema = TypedSchema | UnionSchema;
+
+export interface ObjectSchema extends TypedSchema {
+  type: "object";
+  properties: { [key: string]: PropertySchema };
+  additionalProperties: boolean;
+}
+
+export const datadogSites = ["datadoghq.com", "datadoghq.eu", "us3.datadoghq.com", "us5.datadoghq.com", "ddog-gov.com"];
+export const datadogLogLevels = ["trace", "debug", "info", "warn", "error", "critical", "off"];
+
+// Both casings are accepted by the Datadog libraries, so both are listed for the Serverless validator.
+// The plugin side validation below compares the values of these enums case insensitively.
+const caseInsensitiveEnums = new WeakSet<string[]>();
+const caseInsensitiveEnum = (values: string[]) => {
+  const allowedValues = [...values, ...values.map((value) => value.toUpperCase())];
+  caseInsensitiveEnums.add(allowedValues);
+  return allowedValues;
+};
+
+const oneOfTypes = (...types: SchemaType[]): UnionSchema => ({ anyOf: types.map((type) => ({ type })) });
+
+const functionSelectorSchema: PropertySchema = {
+  anyOf: [
+    { type: "string" },
+    {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        runtime: { type: "string" },
+        architecture: { type: "string", enum: ["x86_64", "arm64"] },
+        tags: { type: "object", additionalProperties: { type: "string" } },
+      },
+      additionalProperties: false,
+    },
+  ],
+};
+
+const configurationProperties: { [key: string]: PropertySchema } = {
+  enabled: { type: "boolean" },
+  addLayers: { type: "boolean" },
+  apiKey: oneOfTypes("string", "number"),
+  appKey: oneOfTypes("string", "number"),
+  monitorsApiKey: oneOfTypes("string", "number"),
+  monitorsAppKey: oneOfTypes("string", "number"),
+  apiKeySecretArn: { type: "string" },
+  apiKeySSMArn: { type: "string" },
+  apiKeyStorage: { type: "string", enum: ["environment", "managedSecret"] },
+  apiKMSKey: { type: "string" },
+  addApiKeyPermissions: { type: "boolean" },
+  captureLambdaPayload: { type: "boolean" },
+  site: { type: "string", enum: caseInsensitiveEnum(datadogSites) },
+  logLevel: { type: "string", enum: caseInsensitiveEnum(datadogLogLevels) },
+  flushMetricsToLogs: { type: "boolean" },
+  enableXrayTracing: { type: "boolean" },
+  enableDDTracing: { type: "boolean" },
+  enableDDLogs: { type: "boolean" },
+  addExtension: { type: "boolean" },
+  nodeLayerVersion: { type: "number" },
+  pythonLayerVersion: { type: "number" },
+  extensionLayerVersion: { type: "number" },
+  dotnetLayerVersion: { type: "number" },
+  javaLayerVersion: { type: "number" },
+  layerSource: {
+    type: "object",
+    properties: {
+      accountId: { type: "string" },
+      namePrefix: { type: "string" },
+      partition: { type: "string" },
+      layers: { type: "object", additionalProperties: { type: "string" } },
+    },
+    additionalProperties: false,
+  },
+  localLayers: { type: "object", additionalProperties: { type: "string" } },
+  forwarderArn: oneOfTypes("string", "object"),
+  forwarder: oneOfTypes("string", "object"),
+  integrationTesting: { type: "boolean" },
+  enableTags: { type: "boolean" },
+  injectLogContext: { type: "boolean" },
+  enableSourceCodeIntegration: { type: "boolean" },
+  include: { type: "array", items: functionSelectorSchema },
+  exclude: { type: "array", items: functionSelectorSchema },
+  // `monitors: false` is accepted to explicitly turn monitors off
+  monitors: { anyOf: [{ type: "array", items: { type: "object" } }, { type: "boolean" }] },
+  failOnError: { type: "boolean" },
+  failOnPlaintextApiKey: { type: "boolean" },
+  failOnMissingHandler: { type: "boolean" },
+  subscribeToAccessLogs: { type: "boolean" },
+  subscribeToExecutionLogs: { type: "boolean" },
+  customHandler: {
+    anyOf: [
+      { type: "string" },
+      {
+        type: "object",
+        properties: {
+          node: { type: "string" },
+          python: { type: "string" },
+          dotnet: { type: "string" },
+          java: { type: "string" },
+          ruby: { type: "string" },
+          go: { type: "string" },
+          functions: { type: "object", additionalProperties: { type: "string" } },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  service: { type: "string" },
+  env: { type: "string" },
+  version: oneOfTypes("string", "number"),
+  tags: { type: "string" },
+};
+
+/**
+ * JSON schema of the `custom.datadog` block. It is registered with the Serverless `configSchemaHandler`
+ * and is also used by `getConfigurationErrors` to validate the resolved configuration.
+ */
+export const datadogConfigSchema: ObjectSchema = {
+  type: "object",
+  properties: {
+    ...configurationProperties,
+    extends: { type: "string" },
+    // Stage profiles, keyed by stage name, accept every other key of the configuration
+    stages: {
+      type: "object",
+      additionalProperties: { type: "object", properties: configurationProperties, additionalProperties: false },
+    },
+  },
+  additionalProperties: false,
+};
+
+// Keys of the configuration that can be overridden in the `datadog` block of a function definition
+export const functionConfigurationKeys = [
+  "enabled",
+  "addLayers",
+  "addExtension",
+  "captureLambdaPayload",
+  "logLevel",
+  "flushMetricsToLogs",
+  "enableXrayTracing",
+  "enableDDTracing",
+  "enableDDLogs",
+  "injectLogContext",
+  "customHandler",
+  "service",
+  "env",
+  "version",
+  "tags",
+];
+
+/**
+ * JSON schema of the `datadog` block of a function definition, registered with `defineFunctionProperties`.
+ */
+export const datadogFunctionConfigSchema: ObjectSchema = {
+  type: "object",
+  properties: functionConfigurationKeys.reduce(
+    (properties, key) => ({ ...properties, [key]: datadogConfigSchema.properties[key] }),
+    {},
+  ),
+  additionalProperties: false,
+};
+
+/**
+ * Validates a resolved `custom.datadog` configuration against `datadogConfigSchema`.
+ * @param config - the configuration to validate
+ * @returns a list of human readable errors for unknown keys, wrong types and invalid enum values
+ */
+export function getConfigurationErrors(config: { [key: string]: any }, schema: ObjectSchema = datadogConfigSchema) {
+  return getObjectErrors(undefined, config, schema);
+}
+
+function getObjectErrors(path: string | undefined, value: { [key: string]: any }, schema: TypedSchema) {
+  const errors: string[] = [];
+  const knownKeys = Object.keys(schema.properties ?? {});
+
+  for (const [key, propertyValue] of Object.entries(value)) {
+    if (propertyValue === undefined) {
+      continue;
+    }
+    const propertyPath = path === undefined ? key : `${path}.${key}`;
+    const propertySchema =
+      schema.properties?.[key] ??
+      (typeof schema.additionalProperties === "object" ? schema.additionalProperties : undefined);
+    if (propertySchema !== undefined) {
+      errors.push(...getPropertyErrors(propertyPath, propertyValue, propertySchema));
+    } else if (schema.additionalProperties === false) {
+      const suggestion = getClosestKey(key, knownKeys);
+      errors.push(
+        suggestion === undefined
+          ? `Unknown configuration key \`${propertyPath}\`.`
+          : `Unknown configuration key \`${propertyPath}\`. Did you mean \`${suggestion}\`?`,
+      );
+    }
+  }
+
+  return errors;
+}
+
+function getPropertyErrors(path: string, value: any, schema: PropertySchema): string[] {
+  const typedSchemas = "anyOf" in schema ? schema.anyOf : [schema];
+  const valueType = getValueType(value);
+  const typedSchema = typedSchemas.find(({ type }) => type === valueType);
+  if (typedSchema === undefined) {
+    const allowedTypes = typedSchemas.map(({ type }) => type);
+    return [
+      `\`${path}\` must be of type ${allowedTypes.join(" or ")}, but received ${valueType} ${JSON.stringify(value)}.`,
+    ];
+  }
+
+  if (typedSchema.enum !== undefined && typeof value === "string") {
+    const isCaseInsensitive = caseInsensitiveEnums.has(typedSchema.enum);
+    const allowedValues = isCaseInsensitive
+      ? typedSchema.enum.map((allowed) => allowed.toLowerCase())
+      : typedSchema.enum;
+    if (!allowedValues.includes(isCaseInsensitive ? value.toLowerCase() : value)) {
+      const uniqueValues = Array.from(new Set(allowedValues));
+      return [`\`${path}\` must be one of ${uniqueValues.join(", ")}, but received "${value}".`];
+    }
+  }
+
+  if (typedSchema.type === "object") {
+    return getObjectErrors(path, value, typedSchema);
+  }
+
+  if (typedSchema.items !== undefined && Array.isArray(value)) {
+    const itemSchema = typedSchema.items;
+    return value.reduce(
+      (errors: string[], item, index) => [...errors, ...getPropertyErrors(`${path}[${index}]`, item, itemSchema)],
+      [],
+    );
+  }
+
+  return [];
+}
+
+function getValueType(value: any) {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+/**
+ * Finds the known key closest to an unknown one, so typos like `enableDDTraicng` can be
+ * reported along with the key that was most likely intended.
+ */
+function getClosestKey(key: string, knownKeys: string[]) {
+  let closestKey: string | undefined;
+  let closestDistance = Number.MAX_SAFE_INTEGER;
+  for (const knownKey of knownKeys) {
+    const distance = getEditDistance(key.toLowerCase(), knownKey.toLowerCase());
+    if (distance < closestDistance) {
+      closestDistance = distance;
+      closestKey = knownKey;
+    }
+  }
+  // Only suggest keys that are reasonably close, otherwise the suggestion is more confusing than helpful
+  const maxDistance = Math.max(2, Math.floor(key.length / 3));
+  return closestDistance <= maxDistance ? closestKey : undefined;
+}
+
+function getEditDistance(a: string, b: string) {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      currentRow[j] = Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + substitutionCost);
+    }
+    previousRow = currentRow;
+  }
+  return previousRow[b.length];
+}
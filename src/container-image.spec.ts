@@ -0,0 +1,53 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import { getContainerImageSteps } from "./container-image";
+import { defaultConfiguration } from "./env";
+import { FunctionInfo, RuntimeType } from "./layer";
+
+describe("getContainerImageSteps", () => {
+  it("lists the library, extension and handler steps of an image without a command override", () => {
+    const func: FunctionInfo = {
+      name: "node-function",
+      type: RuntimeType.NODE,
+      runtime: "nodejs14.x",
+      handler: { image: "123456789012.dkr.ecr.us-east-1.amazonaws.com/my-image:latest", events: [] },
+    };
+    expect(getContainerImageSteps(func, defaultConfiguration)).toEqual([
+      "RUN npm install datadog-lambda-js dd-trace",
+      "COPY --from=public.ecr.aws/datadog/lambda-extension:latest /opt/. /opt/",
+      "ENV DD_LAMBDA_HANDLER=<your handler>",
+      'CMD ["node_modules/datadog-lambda-js/dist/handler.handler"]',
+    ]);
+  });
+
+  it("leaves out the handler steps when the command of the image is redirected", () => {
+    const func: FunctionInfo = {
+      name: "python-function",
+      type: RuntimeType.PYTHON,
+      runtime: "python3.9",
+      handler: { image: { name: "my-image", command: ["app.handler"] }, events: [] },
+    };
+    expect(getContainerImageSteps(func, { ...defaultConfiguration, addExtension: false })).toEqual([
+      "RUN pip install datadog-lambda",
+    ]);
+  });
+
+  it("lists the tracer steps of runtimes whose handler isn't redirected", () => {
+    const func: FunctionInfo = {
+      name: "java-function",
+      type: RuntimeType.JAVA,
+      runtime: "java11",
+      handler: { image: "my-image", events: [] },
+    };
+    expect(getContainerImageSteps(func, defaultConfiguration)).toEqual([
+      "COPY --from=public.ecr.aws/datadog/lambda-extension:latest /opt/. /opt/",
+      "RUN mkdir -p /opt/java/lib && curl -sSL -o /opt/java/lib/dd-java-agent.jar https://dtdg.co/latest-java-tracer",
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import { Configuration } from "./env";
+import { FunctionInfo, RuntimeType } from "./layer";
+import { datadogHandlerEnvVar, getDDImageHandler, getImageCommand } from "./wrapper";
+
+const extensionStep = "COPY --from=public.ecr.aws/datadog/lambda-extension:latest /opt/. /opt/";
+
+// Steps installing the Datadog library otherwise added with the Lambda Library layers
+const libraryInstallSteps: { [type: number]: string | undefined } = {
+  [RuntimeType.NODE]: "RUN npm install datadog-lambda-js dd-trace",
+  [RuntimeType.PYTHON]: "RUN pip install datadog-lambda",
+};
+
+// Steps installing the tracers otherwise added along with the extension layer, at the paths the
+// environment variables set by the plugin point to
+const tracerInstallSteps: { [type: number]: string | undefined } = {
+  [RuntimeType.DOTNET]:
+    "RUN mkdir -p /opt/datadog && curl -sSL https://github.com/DataDog/dd-trace-dotnet/releases/download/v<version>/datadog-dotnet-apm-<version>.tar.gz | tar -xz -C /opt/datadog",
+  [RuntimeType.JAVA]:
+    "RUN mkdir -p /opt/java/lib && curl -sSL -o /opt/java/lib/dd-java-agent.jar https://dtdg.co/latest-java-tracer",
+};
+
+/**
+ * Lists the Dockerfile steps a container image function needs to be instrumented, for the parts of the
+ * instrumentation the plugin can't do itself.
+ */
+export function getContainerImageSteps(func: FunctionInfo, config: Configuration) {
+  const steps: string[] = [];
+  const libraryInstallStep = libraryInstallSteps[func.type];
+  if (config.addLayers && libraryInstallStep !== undefined) {
+    steps.push(libraryInstallStep);
+  }
+  if (config.addExtension) {
+    steps.push(extensionStep);
+    const tracerInstallStep = tracerInstallSteps[func.type];
+    if (tracerInstallStep !== undefined) {
+      steps.push(tracerInstallStep);
+    }
+  }
+  // With a `command` override, the plugin redirects the handler itself
+  const datadogHandler = getDDImageHandler(func, config.customHandler);
+  if (datadogHandler !== undefined && getImageCommand(func.handler.image) === undefined) {
+    steps.push(`ENV ${datadogHandlerEnvVar}=<your handler>`, `CMD ["${datadogHandler}"]`);
+  }
+  return steps;
+}
@@ -10,10 +10,16 @@ import {
   defaultConfiguration,
   forceExcludeDepsFromWebpack,
   getConfig,
+  getConfigLayers,
+  getConfigSources,
+  getFunctionConfig,
+  groupHandlersByConfig,
   hasWebpackPlugin,
+  loadExtendedConfig,
   setEnvConfiguration,
 } from "./env";
 import { FunctionInfo, RuntimeType } from "./layer";
+import mock from "mock-fs";
 
 describe("hasWebpackPlugin", () => {
   it("returns false when the serverless.yml plugins object is not defined", () => {
@@ -117,6 +123,113 @@ describe("getConfig", () => {
     });
   });
 
+  it("deep merges the profile of the current stage over the base configuration", () => {
+    const result = getConfig(
+      {
+        custom: {
+          datadog: {
+            logLevel: "info",
+            captureLambdaPayload: false,
+            monitors: [{ high_error_rate: { options: { thresholds: { critical: 0.1 } } } }],
+            forwarderArn: { "Fn::Sub": "arn:aws:lambda:${AWS::Region}:123:function:forwarder" },
+            stages: {
+              prod: {
+                captureLambdaPayload: true,
+                monitors: [{ timeout: {} }],
+                forwarderArn: { "arn:aws": "arn:aws:lambda:us-east-1:123:function:forwarder" },
+              },
+              dev: {
+                enabled: false,
+              },
+            },
+          },
+        },
+      } as any,
+      "prod",
+    );
+
+    expect(result).toEqual({
+      ...defaultConfiguration,
+      logLevel: "info",
+      captureLambdaPayload: true,
+      monitors: [{ timeout: {} }],
+      forwarderArn: {
+        "Fn::Sub": "arn:aws:lambda:${AWS::Region}:123:function:forwarder",
+        "arn:aws": "arn:aws:lambda:us-east-1:123:function:forwarder",
+      },
+    });
+  });
+
+  it("uses the base configuration when there is no profile for the current stage", () => {
+    const result = getConfig(
+      {
+        custom: {
+          datadog: {
+            logLevel: "info",
+            stages: {
+              prod: {
+                logLevel: "error",
+              },
+            },
+          },
+        },
+      } as any,
+      "staging",
+    );
+
+    expect(result).toEqual({
+      ...defaultConfiguration,
+      logLevel: "info",
+    });
+  });
+
+  it("uses the deprecated monitor keys over the stage profile", () => {
+    const result = getConfig(
+      {
+        custom: {
+          datadog: {
+            monitorsApiKey: "monitors-api-key",
+            stages: {
+              prod: {
+                apiKey: "prod-api-key",
+              },
+            },
+          },
+        },
+      } as any,
+      "prod",
+    );
+
+    expect(result.apiKey).toEqual("monitors-api-key");
+  });
+
+  it("layers the service configuration over the extended configuration", () => {
+    const result = getConfig(
+      {
+        custom: {
+          datadog: {
+            extends: "./datadog.shared.json",
+            logLevel: "debug",
+            stages: { prod: { captureLambdaPayload: true } },
+          },
+        },
+      } as any,
+      "prod",
+      {
+        site: "datadoghq.eu",
+        logLevel: "info",
+        stages: { prod: { logLevel: "error" } },
+      },
+    );
+
+    expect(result).toEqual({
+      ...defaultConfiguration,
+      site: "datadoghq.eu",
+      logLevel: "error",
+      captureLambdaPayload: true,
+    });
+  });
+
   it("uses apiKey instead of DATADOG_API_KEY", () => {
     process.env.DATADOG_API_KEY = "api-key";
 
@@ -646,6 +759,86 @@ describe("setEnvConfiguration", () => {
     ]);
   });
 
+  it("points `DD_API_KEY_SECRET_ARN` at the managed secret instead of setting `DD_API_KEY`", () => {
+    const handlers: FunctionInfo[] = [
+      {
+        handler: {
+          environment: {},
+          events: [],
+        },
+        name: "function",
+        type: RuntimeType.PYTHON,
+        runtime: "python3.9",
+      },
+    ];
+    setEnvConfiguration({ ...defaultConfiguration, apiKey: "1234", apiKeyStorage: "managedSecret" }, handlers);
+    expect(handlers[0].handler.environment).toMatchObject({ DD_API_KEY_SECRET_ARN: { Ref: "DatadogApiKeySecret" } });
+    expect(handlers[0].handler.environment).not.toHaveProperty("DD_API_KEY");
+  });
+
+  it("sets `DD_API_KEY_SSM_ARN` when `apiKeySSMArn` is defined", () => {
+    const handlers: FunctionInfo[] = [
+      {
+        handler: {
+          environment: {},
+          events: [],
+        },
+        name: "function",
+        type: RuntimeType.PYTHON,
+        runtime: "python3.9",
+      },
+    ];
+    setEnvConfiguration({ ...defaultConfiguration, apiKeySSMArn: "arn:aws:ssm:us-east-1:123:parameter/dd" }, handlers);
+    expect(handlers[0].handler.environment).toMatchObject({
+      DD_API_KEY_SSM_ARN: "arn:aws:ssm:us-east-1:123:parameter/dd",
+    });
+  });
+
+  it("throws an error when `apiKeySSMArn` is used without the extension", () => {
+    const handlers: FunctionInfo[] = [
+      {
+        handler: {
+          environment: {},
+          events: [],
+        },
+        name: "function",
+        type: RuntimeType.PYTHON,
+        runtime: "python3.9",
+      },
+    ];
+    expect(() =>
+      setEnvConfiguration(
+        { ...defaultConfiguration, addExtension: false, apiKeySSMArn: "arn:aws:ssm:us-east-1:123:parameter/dd" },
+        handlers,
+      ),
+    ).toThrow(
+      "`apiKeySSMArn` is only supported with the Datadog Lambda Extension. Set `addExtension` to true, or use `apiKeySecretArn` or `apiKmsKey` in the configuration.",
+    );
+  });
+
+  it("throws an error when `apiKeySSMArn` is used with a runtime the extension doesn't support", () => {
+    const handlers: FunctionInfo[] = [
+      {
+        handler: {
+          name: "go-function",
+          environment: {},
+          events: [],
+        },
+        name: "go-function",
+        type: RuntimeType.UNSUPPORTED,
+        runtime: "go1.10",
+      },
+    ];
+    expect(() =>
+      setEnvConfiguration(
+        { ...defaultConfiguration, apiKeySSMArn: "arn:aws:ssm:us-east-1:123:parameter/dd" },
+        handlers,
+      ),
+    ).toThrow(
+      "`apiKeySSMArn` is not supported for function go-function, the Datadog Lambda Extension can't be added to runtime go1.10. Use `apiKeySecretArn` or `apiKmsKey` in the configuration.",
+    );
+  });
+
   it("does not define `DD_FLUSH_TO_LOG` when `addExtension` is true", () => {
     const handlers: FunctionInfo[] = [
       {
@@ -847,3 +1040,196 @@ describe("setEnvConfiguration", () => {
     );
   });
 });
+
+describe("getConfigSources", () => {
+  beforeEach(() => {
+    process.env = {};
+  });
+
+  it("reports the layer every value comes from", () => {
+    const service = {
+      custom: {
+        datadog: {
+          extends: "./datadog.shared.json",
+          logLevel: "info",
+          monitorsApiKey: "monitors-api-key",
+          stages: { prod: { captureLambdaPayload: true } },
+        },
+      },
+    } as any;
+    const layers = getConfigLayers(service, "prod", { site: "datadoghq.eu" });
+    const sources = getConfigSources(layers);
+
+    expect(sources.addLayers).toEqual({ value: true, source: "default" });
+    expect(sources.site).toEqual({ value: "datadoghq.eu", source: "custom.datadog.extends (./datadog.shared.json)" });
+    expect(sources.logLevel).toEqual({ value: "info", source: "custom.datadog" });
+    expect(sources.captureLambdaPayload).toEqual({ value: true, source: "custom.datadog.stages.prod" });
+    expect(sources.apiKey).toEqual({
+      value: "monitors-api-key",
+      source: "custom.datadog.monitorsApiKey (deprecated)",
+    });
+    expect(sources).not.toHaveProperty("stages");
+    expect(sources).not.toHaveProperty("extends");
+  });
+
+  it("falls back to environment variables for keys that are not configured", () => {
+    process.env.DATADOG_API_KEY = "env-api-key";
+    process.env.DATADOG_APP_KEY = "env-app-key";
+    const sources = getConfigSources(getConfigLayers({ custom: { datadog: { appKey: "app-key" } } } as any));
+
+    expect(sources.apiKey).toEqual({ value: "env-api-key", source: "environment variable DATADOG_API_KEY" });
+    expect(sources.appKey).toEqual({ value: "app-key", source: "custom.datadog" });
+  });
+
+  it("resolves the same values as getConfig", () => {
+    const service = {
+      custom: { datadog: { logLevel: "info", stages: { prod: { logLevel: "error" } } } },
+    } as any;
+    const sources = getConfigSources(getConfigLayers(service, "prod"));
+    const config: { [key: string]: any } = getConfig(service, "prod");
+
+    for (const [key, { value }] of Object.entries(sources)) {
+      expect(value).toEqual(config[key]);
+    }
+  });
+});
+
+describe("loadExtendedConfig", () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("returns undefined when custom.datadog.extends is not set", async () => {
+    const result = await loadExtendedConfig({ custom: { datadog: {} } } as any, "/service");
+    expect(result).toBeUndefined();
+  });
+
+  it("loads a JSON configuration file relative to the service", async () => {
+    mock({
+      "/service/datadog.shared.json": JSON.stringify({ site: "datadoghq.eu", exclude: ["first"] }),
+    });
+    const result = await loadExtendedConfig(
+      { custom: { datadog: { extends: "./datadog.shared.json" } } } as any,
+      "/service",
+    );
+    expect(result).toEqual({ site: "datadoghq.eu", exclude: ["first"] });
+  });
+
+  it("follows the chain of extended YAML and JSON files", async () => {
+    mock({
+      "/shared/base.json": JSON.stringify({
+        site: "datadoghq.eu",
+        logLevel: "info",
+        stages: { prod: { logLevel: "error" } },
+      }),
+      "/shared/team/datadog.yml":
+        "extends: ../base.json\nlogLevel: debug\nstages:\n  prod:\n    captureLambdaPayload: true\n",
+    });
+    const result = await loadExtendedConfig(
+      { custom: { datadog: { extends: "../shared/team/datadog.yml" } } } as any,
+      "/service",
+    );
+    expect(result).toEqual({
+      site: "datadoghq.eu",
+      logLevel: "debug",
+      stages: { prod: { logLevel: "error", captureLambdaPayload: true } },
+    });
+  });
+
+  it("throws an error when an extended file does not exist", async () => {
+    mock({
+      "/shared/datadog.json": JSON.stringify({ extends: "./missing.json" }),
+    });
+    await expect(
+      loadExtendedConfig({ custom: { datadog: { extends: "/shared/datadog.json" } } } as any, "/service"),
+    ).rejects.toThrow(
+      "Datadog configuration file /shared/missing.json, extended by /shared/datadog.json, does not exist.",
+    );
+  });
+
+  it("throws an error when an extended file is malformed", async () => {
+    mock({
+      "/service/datadog.json": "{ site: ",
+    });
+    await expect(
+      loadExtendedConfig({ custom: { datadog: { extends: "./datadog.json" } } } as any, "/service"),
+    ).rejects.toThrow("Datadog configuration file /service/datadog.json is malformed:");
+  });
+
+  it("throws an error when an extended file does not contain an object", async () => {
+    mock({
+      "/service/datadog.yaml": "- site: datadoghq.eu\n",
+    });
+    await expect(
+      loadExtendedConfig({ custom: { datadog: { extends: "./datadog.yaml" } } } as any, "/service"),
+    ).rejects.toThrow("Datadog configuration file /service/datadog.yaml is malformed: it must contain an object.");
+  });
+
+  it("throws an error when files extend each other", async () => {
+    mock({
+      "/service/first.json": JSON.stringify({ extends: "./second.json" }),
+      "/service/second.json": JSON.stringify({ extends: "./first.json" }),
+    });
+    await expect(
+      loadExtendedConfig({ custom: { datadog: { extends: "./first.json" } } } as any, "/service"),
+    ).rejects.toThrow(
+      "Circular `extends` in Datadog configuration files: custom.datadog -> /service/first.json -> /service/second.json -> /service/first.json",
+    );
+  });
+});
+
+describe("getFunctionConfig", () => {
+  it("returns the service level configuration when the function has no datadog block", () => {
+    const handler = {
+      name: "node1",
+      type: RuntimeType.NODE,
+      handler: { handler: "my-func.ev", events: [] },
+    } as FunctionInfo;
+    expect(getFunctionConfig(defaultConfiguration, handler)).toBe(defaultConfiguration);
+  });
+
+  it("merges the datadog block of the function over the service level configuration", () => {
+    const handler = {
+      name: "node1",
+      type: RuntimeType.NODE,
+      handler: { handler: "my-func.ev", events: [], datadog: { enableDDTracing: false, service: "worker" } },
+    } as FunctionInfo;
+    expect(getFunctionConfig(defaultConfiguration, handler)).toEqual({
+      ...defaultConfiguration,
+      enableDDTracing: false,
+      service: "worker",
+    });
+  });
+});
+
+describe("groupHandlersByConfig", () => {
+  it("groups handlers that share the same function level overrides", () => {
+    const first = {
+      name: "first",
+      type: RuntimeType.NODE,
+      handler: { handler: "first.handler", events: [] },
+    } as FunctionInfo;
+    const second = {
+      name: "second",
+      type: RuntimeType.NODE,
+      handler: { handler: "second.handler", events: [], datadog: { addExtension: false } },
+    } as FunctionInfo;
+    const third = {
+      name: "third",
+      type: RuntimeType.PYTHON,
+      handler: { handler: "third.handler", events: [], datadog: { addExtension: false } },
+    } as FunctionInfo;
+    const fourth = {
+      name: "fourth",
+      type: RuntimeType.PYTHON,
+      handler: { handler: "fourth.handler", events: [] },
+    } as FunctionInfo;
+
+    const groups = groupHandlersByConfig(defaultConfiguration, [first, second, third, fourth]);
+    expect(groups).toEqual([
+      { config: defaultConfiguration, handlers: [first, fourth] },
+      { config: { ...defaultConfiguration, addExtension: false }, handlers: [second, third] },
+    ]);
+    expect(groups[0].config).toBe(defaultConfiguration);
+  });
+});
@@ -6,8 +6,23 @@
  * Copyright 2021 Datadog, Inc.
  */
 
+import { dirname, resolve } from "path";
 import Service from "serverless/classes/Service";
-import { FunctionInfo, runtimeLookup, RuntimeType } from "./layer";
+import { getApiKeySecretArn, managedApiKeySecretLogicalId } from "./api-key-secret";
+import { getConfig as readConfigFile } from "./helpers/utils";
+import { FunctionInfo, isFunctionDefinitionImage, LayerSource, runtimeLookup, RuntimeType } from "./layer";
+import { FunctionSelector } from "./selectors";
+
+// Custom handlers keyed by runtime family, and by function name under `functions`, which takes precedence
+export interface CustomHandlerMap {
+  node?: string;
+  python?: string;
+  dotnet?: string;
+  java?: string;
+  ruby?: string;
+  go?: string;
+  functions?: { [functionName: string]: string };
+}
 
 export interface Configuration {
   // Whether Datadog is enabled. Defaults to true.
@@ -24,8 +39,17 @@ export interface Configuration {
   monitorsAppKey?: string;
   // The ARN of the secret in AWS Secrets Manager containing the Datadog API key.
   apiKeySecretArn?: string;
+  // The ARN of the SecureString parameter in AWS SSM Parameter Store containing the Datadog API key. Only read by
+  // the Datadog Lambda Extension.
+  apiKeySSMArn?: string;
+  // Where the functions read the Datadog API key from. With `managedSecret`, the plugin stores the API key in a
+  // Secrets Manager secret it adds to the stack, instead of setting it as an environment variable.
+  apiKeyStorage?: "environment" | "managedSecret";
   // Datadog API Key encrypted using KMS, only necessary when using metrics without log forwarding
   apiKMSKey?: string;
+  // Whether to add the permissions needed to retrieve `apiKeySecretArn` or decrypt `apiKMSKey` to the function roles.
+  // Defaults to true.
+  addApiKeyPermissions?: boolean;
   // Whether to capture and store the payload and response of a lambda invocation
   captureLambdaPayload?: boolean;
   // Which Site to send to, (should be datadoghq.com or datadoghq.eu)
@@ -42,6 +66,16 @@ export interface Configuration {
   enableDDLogs: boolean;
   // Whether to add the Datadog Lambda Extension to send data without the need of the Datadog Forwarder.
   addExtension: boolean;
+  // When set, the layers are added with these versions instead of the ones shipped with the plugin
+  nodeLayerVersion?: number;
+  pythonLayerVersion?: number;
+  extensionLayerVersion?: number;
+  dotnetLayerVersion?: number;
+  javaLayerVersion?: number;
+  // Account, partition and naming of a private mirror of the Datadog layers to use instead of the public ones
+  layerSource?: LayerSource;
+  // Local layer zips by key of the layers catalog, published by the service stack instead of using the public layers
+  localLayers?: { [layerKey: string]: string };
 
   // When either is set, the plugin will subscribe the lambdas to the forwarder with the given arn.
   forwarderArn?: string;
@@ -60,25 +94,64 @@ export interface Configuration {
   // git.commit.sha.
   enableSourceCodeIntegration: boolean;
 
-  // When set, this plugin will not try to redirect the handlers of these specified functions;
-  exclude: string[];
+  // When set, this plugin will only instrument the functions matching one of these selectors
+  include?: FunctionSelector[];
+  // When set, this plugin will not try to redirect the handlers of the functions matching these selectors
+  exclude: FunctionSelector[];
   // When set, this plugin will configure the specified monitors for the function
   monitors?: { [id: string]: { [key: string]: any } }[];
 
-  // When set, this plugin will fail a deployment if monitors can't be created
+  // When set, this plugin will fail a deployment if monitors can't be created, or if the Datadog API key is
+  // about to be written in plaintext in the environment of the functions
   failOnError: boolean;
+  // When set, this plugin will fail a deployment if the CloudFormation template contains a plaintext DD_API_KEY
+  failOnPlaintextApiKey?: boolean;
+  // When set, this plugin will fail a deployment if the handler of a function can't be resolved to a file exporting it
+  failOnMissingHandler?: boolean;
   // API Gateway Access logging
   subscribeToAccessLogs: boolean;
   // API Gateway Execution logging - handles rest and websocket. Http not supported as of Sept.21
   subscribeToExecutionLogs: boolean;
 
-  // When set, this plugin will configure the specified handler for the functions
-  customHandler?: string;
+  // When set, this plugin will configure the specified handler for the functions, or the handler of their runtime
+  // family or name when set to a `CustomHandlerMap`
+  customHandler?: string | CustomHandlerMap;
+
+  // Unified service tagging, added as DD_XXX env vars with the extension or as tags with the forwarder
+  service?: string;
+  env?: string;
+  version?: string;
+  // Comma separated list of key:value pairs
+  tags?: string;
+}
+
+// The `custom.datadog` section, or one of the configuration files it extends
+export type CustomConfiguration = Partial<Configuration> & {
+  // Path of a JSON or YAML configuration file to use as the base of this one
+  extends?: string;
+  stages?: { [stage: string]: Partial<Configuration> | undefined };
+};
+
+export interface ConfigurationLayer {
+  // Where the values come from, e.g. `custom.datadog`
+  source: string;
+  values: Partial<Configuration>;
+}
+
+export interface ConfigurationValueSource {
+  value: any;
+  source: string;
+}
+
+export interface FunctionConfigurationGroup {
+  config: Configuration;
+  handlers: FunctionInfo[];
 }
 const webpackPluginName = "serverless-webpack";
 const apiKeyEnvVar = "DD_API_KEY";
 const apiKeyKMSEnvVar = "DD_KMS_API_KEY";
 const apiKeySecretArnEnvVar = "DD_API_KEY_SECRET_ARN";
+const apiKeySSMArnEnvVar = "DD_API_KEY_SSM_ARN";
 const siteURLEnvVar = "DD_SITE";
 const logLevelEnvVar = "DD_LOG_LEVEL";
 const logForwardingEnvVar = "DD_FLUSH_TO_LOG";
@@ -88,6 +161,12 @@ const logInjectionEnvVar = "DD_LOGS_INJECTION";
 const ddLogsEnabledEnvVar = "DD_SERVERLESS_LOGS_ENABLED";
 const ddCaptureLambdaPayloadEnvVar = "DD_CAPTURE_LAMBDA_PAYLOAD";
 
+// Environment variables of the deployment environment used when the matching configuration key isn't set
+const configurationEnvVars: { [key: string]: string } = {
+  apiKey: "DATADOG_API_KEY",
+  appKey: "DATADOG_APP_KEY",
+};
+
 export const ddServiceEnvVar = "DD_SERVICE";
 export const ddEnvEnvVar = "DD_ENV";
 export const ddVersionEnvVar = "DD_VERSION";
@@ -130,10 +209,11 @@ export const defaultConfiguration: Configuration = {
 };
 
 export function setEnvConfiguration(config: Configuration, handlers: FunctionInfo[]) {
-  handlers.forEach(({ handler, type }) => {
+  handlers.forEach(({ handler, type, runtime }) => {
     handler.environment ??= {};
     const environment = handler.environment as any;
     const functionName = handler.name ?? "";
+    const apiKeySecretArn = getApiKeySecretArn(config);
     if (
       process.env.DATADOG_API_KEY !== undefined &&
       environment[apiKeyEnvVar] === undefined &&
@@ -143,17 +223,23 @@ export function setEnvConfiguration(config: Configuration, handlers: FunctionInf
       // in the configuration.
       config.apiKMSKey === undefined &&
       config.apiKey === undefined &&
-      config.apiKeySecretArn === undefined
+      apiKeySecretArn === undefined &&
+      config.apiKeySSMArn === undefined
     ) {
       environment[apiKeyEnvVar] = process.env.DATADOG_API_KEY;
     }
-    if (config.apiKey !== undefined && environment[apiKeyEnvVar] === undefined) {
+    // With a managed secret, `apiKey` is only used to fill the secret
+    if (
+      config.apiKey !== undefined &&
+      environment[apiKeyEnvVar] === undefined &&
+      config.apiKeyStorage !== "managedSecret"
+    ) {
       environment[apiKeyEnvVar] = config.apiKey;
     }
     if (config.apiKMSKey !== undefined && environment[apiKeyKMSEnvVar] === undefined) {
       environment[apiKeyKMSEnvVar] = config.apiKMSKey;
     }
-    if (config.apiKeySecretArn !== undefined && environment[apiKeySecretArnEnvVar] === undefined) {
+    if (apiKeySecretArn !== undefined && environment[apiKeySecretArnEnvVar] === undefined) {
       const isNode = runtimeLookup[handler.runtime!] === RuntimeType.NODE;
       const isSendingSynchronousMetrics = !config.addExtension && !config.flushMetricsToLogs;
       if (isSendingSynchronousMetrics && isNode) {
@@ -161,7 +247,20 @@ export function setEnvConfiguration(config: Configuration, handlers: FunctionInf
           "`apiKeySecretArn` is not supported for Node runtimes when using Synchronous Metrics. Set DATADOG_API_KEY in your environment, or use `apiKmsKey` in the configuration.",
         );
       }
-      environment[apiKeySecretArnEnvVar] = config.apiKeySecretArn;
+      environment[apiKeySecretArnEnvVar] = apiKeySecretArn;
+    }
+    if (config.apiKeySSMArn !== undefined && environment[apiKeySSMArnEnvVar] === undefined) {
+      if (!config.addExtension) {
+        throw new Error(
+          "`apiKeySSMArn` is only supported with the Datadog Lambda Extension. Set `addExtension` to true, or use `apiKeySecretArn` or `apiKmsKey` in the configuration.",
+        );
+      }
+      if (type === RuntimeType.UNSUPPORTED && !isFunctionDefinitionImage(handler)) {
+        throw new Error(
+          `\`apiKeySSMArn\` is not supported for function ${functionName}, the Datadog Lambda Extension can't be added to runtime ${runtime}. Use \`apiKeySecretArn\` or \`apiKmsKey\` in the configuration.`,
+        );
+      }
+      environment[apiKeySSMArnEnvVar] = config.apiKeySSMArn;
     }
     if (environment[siteURLEnvVar] === undefined) {
       environment[siteURLEnvVar] = config.site;
@@ -224,36 +323,226 @@ export function setEnvConfiguration(config: Configuration, handlers: FunctionInf
   });
 }
 
+/**
+ * Removes the environment variables set by `setEnvConfiguration`: the Datadog ones the plugin sets, and the
+ * tracer ones when they hold the values set by the plugin. Other `DD_` variables, e.g. `DD_TRACE_SAMPLE_RATE` or
+ * `DD_SERVICE`, are kept.
+ */
+export function removeEnvConfiguration(environment: { [key: string]: any }) {
+  const datadogEnvVars = [
+    apiKeyEnvVar,
+    apiKeyKMSEnvVar,
+    apiKeySecretArnEnvVar,
+    apiKeySSMArnEnvVar,
+    siteURLEnvVar,
+    logLevelEnvVar,
+    logForwardingEnvVar,
+    ddTracingEnabledEnvVar,
+    ddMergeXrayTracesEnvVar,
+    logInjectionEnvVar,
+    ddLogsEnabledEnvVar,
+    ddCaptureLambdaPayloadEnvVar,
+  ];
+  const tracerEnvironment: { [key: string]: any } = {
+    [ENABLE_PROFILING_ENV_VAR]: CORECLR_ENABLE_PROFILING,
+    [PROFILER_ENV_VAR]: CORECLR_PROFILER,
+    [PROFILER_PATH_ENV_VAR]: CORECLR_PROFILER_PATH,
+    [DOTNET_TRACER_HOME_ENV_VAR]: DD_DOTNET_TRACER_HOME,
+    [JAVA_TOOL_OPTIONS_VAR]: JAVA_TOOL_OPTIONS,
+    [JAVA_JMXFETCH_ENABLED_VAR]: JAVA_JMXFETCH_ENABLED,
+  };
+  for (const [key, value] of Object.entries(environment)) {
+    if (datadogEnvVars.includes(key) || tracerEnvironment[key] === value) {
+      delete environment[key];
+    }
+  }
+}
+
 function throwEnvVariableError(variable: string, value: string, functionName: string) {
   throw new Error(`Environment variable ${variable} should be set to ${value} for function ${functionName}`);
 }
 
-export function getConfig(service: Service): Configuration {
+/**
+ * Resolves the plugin configuration. Values are applied in the following order, each one taking precedence
+ * over the previous ones:
+ *   1. `defaultConfiguration`
+ *   2. The configuration files extended by `custom.datadog.extends`, see `loadExtendedConfig`
+ *   3. `custom.datadog`
+ *   4. `custom.datadog.stages.<stage>`, deep merged over the configuration above
+ *   5. The deprecated `monitorsApiKey` and `monitorsAppKey`
+ * @param service - the Serverless service
+ * @param stage - the stage being deployed, used to pick the profile under `custom.datadog.stages`
+ * @param extendedConfig - the configuration loaded from the files extended by `custom.datadog.extends`
+ */
+export function getConfig(service: Service, stage?: string, extendedConfig?: CustomConfiguration): Configuration {
+  return getConfigLayers(service, stage, extendedConfig).reduce(
+    (config, layer) => deepMerge(config, layer.values),
+    {} as Configuration,
+  );
+}
+
+/**
+ * Returns the layers `getConfig` merges, from lowest to highest precedence, along with where their values come from.
+ */
+export function getConfigLayers(
+  service: Service,
+  stage?: string,
+  extendedConfig?: CustomConfiguration,
+): ConfigurationLayer[] {
   let custom = service.custom as any;
   if (custom === undefined) {
     custom = {};
   }
 
-  let datadog = custom.datadog as Partial<Configuration> | undefined;
-  if (datadog === undefined) {
-    datadog = {};
+  const customConfig: CustomConfiguration = custom.datadog ?? {};
+  const { stages: extendedStages, ...extendedValues } = extendedConfig ?? {};
+  const { stages: customStages, extends: extendsPath, ...customValues } = customConfig;
+  const stages = deepMerge(extendedStages ?? {}, customStages ?? {});
+  const stageProfile = stage === undefined ? undefined : stages[stage];
+  const datadog: Partial<Configuration> = deepMerge(deepMerge(extendedValues, customValues), stageProfile ?? {});
+
+  const layers: ConfigurationLayer[] = [{ source: "default", values: defaultConfiguration }];
+  if (extendedConfig !== undefined) {
+    layers.push({ source: `custom.datadog.extends (${extendsPath})`, values: extendedValues });
+  }
+  layers.push({ source: "custom.datadog", values: customValues });
+  if (stageProfile !== undefined) {
+    layers.push({ source: `custom.datadog.stages.${stage}`, values: stageProfile });
   }
 
   // These values are deprecated but will supersede everything if set
-  if (custom?.datadog?.monitorsApiKey) {
-    datadog.apiKey = custom?.datadog?.monitorsApiKey ?? datadog.apiKey;
+  if (datadog.monitorsApiKey) {
+    layers.push({ source: "custom.datadog.monitorsApiKey (deprecated)", values: { apiKey: datadog.monitorsApiKey } });
+  }
+
+  if (datadog.monitorsAppKey) {
+    layers.push({ source: "custom.datadog.monitorsAppKey (deprecated)", values: { appKey: datadog.monitorsAppKey } });
   }
 
-  if (custom?.datadog?.monitorsAppKey) {
-    datadog.appKey = custom?.datadog?.monitorsAppKey ?? datadog.appKey;
+  return layers;
+}
+
+/**
+ * Resolves the configuration from its layers like `getConfig`, keeping track of the source of every value.
+ * Keys that are still unset fall back to the environment variables the plugin reads, e.g. `DATADOG_API_KEY`.
+ */
+export function getConfigSources(layers: ConfigurationLayer[]): { [key: string]: ConfigurationValueSource } {
+  const config: { [key: string]: any } = layers.reduce((merged, layer) => deepMerge(merged, layer.values), {});
+  const sources: { [key: string]: ConfigurationValueSource } = {};
+  for (const { source, values } of layers) {
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined) {
+        sources[key] = { value: config[key], source };
+      }
+    }
   }
 
-  const config: Configuration = {
-    ...defaultConfiguration,
-    ...datadog,
+  for (const [key, envVar] of Object.entries(configurationEnvVars)) {
+    const value = process.env[envVar];
+    if (sources[key] === undefined && value !== undefined) {
+      sources[key] = { value, source: `environment variable ${envVar}` };
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Loads the JSON or YAML configuration file referenced by `custom.datadog.extends`, following the `extends`
+ * key of every file in the chain. Each file takes precedence over the files it extends.
+ * @param service - the Serverless service
+ * @param servicePath - the directory `custom.datadog.extends` is resolved from
+ * @returns the merged configuration of the chain, or undefined when `custom.datadog.extends` isn't set
+ */
+export async function loadExtendedConfig(
+  service: Service,
+  servicePath: string,
+): Promise<CustomConfiguration | undefined> {
+  const extendsPath: string | undefined = (service.custom as any)?.datadog?.extends;
+  if (extendsPath === undefined) {
+    return;
+  }
+  return loadConfigFile(resolve(servicePath, extendsPath), ["custom.datadog"]);
+}
+
+async function loadConfigFile(configPath: string, extendedBy: string[]): Promise<CustomConfiguration> {
+  if (extendedBy.includes(configPath)) {
+    throw new Error(`Circular \`extends\` in Datadog configuration files: ${[...extendedBy, configPath].join(" -> ")}`);
+  }
+
+  let fileConfig: any;
+  try {
+    fileConfig = await readConfigFile(configPath);
+  } catch (err: any) {
+    if (err.code === "ENOENT") {
+      throw new Error(
+        `Datadog configuration file ${configPath}, extended by ${extendedBy[extendedBy.length - 1]}, does not exist.`,
+      );
+    }
+    throw new Error(`Datadog configuration file ${configPath} is malformed: ${err.message}`);
+  }
+  if (!isPlainObject(fileConfig)) {
+    throw new Error(`Datadog configuration file ${configPath} is malformed: it must contain an object.`);
+  }
+
+  const { extends: parentPath, ...ownConfig } = fileConfig as CustomConfiguration;
+  if (parentPath === undefined) {
+    return ownConfig;
+  }
+  const parentConfig = await loadConfigFile(resolve(dirname(configPath), parentPath), [...extendedBy, configPath]);
+  return deepMerge(parentConfig, ownConfig);
+}
+
+/**
+ * Returns the names of the profiles defined under `custom.datadog.stages`.
+ */
+export function getStageProfileNames(service: Service): string[] {
+  const stages = (service.custom as any)?.datadog?.stages;
+  return stages === undefined ? [] : Object.keys(stages);
+}
+
+// Objects are merged recursively, any other value (including arrays) from `override` replaces the one from `base`
+function deepMerge<T extends { [key: string]: any }>(base: T, override: Partial<T>): T {
+  const merged: { [key: string]: any } = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? deepMerge(merged[key], value) : value;
+  }
+  return merged as T;
+}
+
+function isPlainObject(value: any): value is { [key: string]: any } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merges the `datadog` block of a function definition over the service level configuration.
+ */
+export function getFunctionConfig(config: Configuration, { handler }: FunctionInfo): Configuration {
+  if (handler.datadog === undefined) {
+    return config;
+  }
+  return {
+    ...config,
+    ...handler.datadog,
   };
+}
 
-  return config;
+/**
+ * Groups the handlers that share the same `datadog` overrides, so every group can be
+ * instrumented with its own merged configuration.
+ */
+export function groupHandlersByConfig(config: Configuration, handlers: FunctionInfo[]): FunctionConfigurationGroup[] {
+  const groups = new Map<string, FunctionConfigurationGroup>();
+  for (const functionInfo of handlers) {
+    const groupKey = JSON.stringify(functionInfo.handler.datadog ?? {});
+    let group = groups.get(groupKey);
+    if (group === undefined) {
+      group = { config: getFunctionConfig(config, functionInfo), handlers: [] };
+      groups.set(groupKey, group);
+    }
+    group.handlers.push(functionInfo);
+  }
+  return Array.from(groups.values());
 }
 
 export function forceExcludeDepsFromWebpack(service: Service) {
@@ -289,6 +578,40 @@ function getPropertyFromPath(obj: any, path: string[]) {
   return obj;
 }
 
+/**
+ * Returns the names of the functions whose environment, or the provider level one, holds the Datadog API key
+ * in plaintext rather than as a reference.
+ */
+export function getFunctionsWithPlaintextApiKey(service: Service, handlers: FunctionInfo[]) {
+  const providerEnvironment = (service.provider as any).environment ?? {};
+  return handlers
+    .filter(({ handler }) =>
+      isPlaintext((handler.environment as any)?.[apiKeyEnvVar] ?? providerEnvironment[apiKeyEnvVar]),
+    )
+    .map(({ name }) => name);
+}
+
+/**
+ * Returns the logical ids of the functions of the compiled CloudFormation template whose environment holds
+ * the Datadog API key in plaintext, and of the managed api key secret when its value is in the template.
+ */
+export function getResourcesWithPlaintextApiKey(service: Service) {
+  const resources = service.provider.compiledCloudFormationTemplate?.Resources ?? {};
+  return Object.entries(resources)
+    .filter(
+      ([logicalId, resource]) =>
+        (resource.Type === "AWS::Lambda::Function" &&
+          isPlaintext(resource.Properties?.Environment?.Variables?.[apiKeyEnvVar])) ||
+        (logicalId === managedApiKeySecretLogicalId && isPlaintext(resource.Properties?.SecretString)),
+    )
+    .map(([logicalId]) => logicalId);
+}
+
+// CloudFormation intrinsic functions, such as a `Ref` to a parameter, are objects
+function isPlaintext(value: any) {
+  return typeof value === "string" || typeof value === "number";
+}
+
 export function hasWebpackPlugin(service: Service) {
   const plugins: string[] | undefined = (service as any).plugins;
   if (plugins === undefined) {
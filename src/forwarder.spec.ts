@@ -1,6 +1,7 @@
 import Service from "serverless/classes/Service";
 import {
   addCloudWatchForwarderSubscriptions,
+  addLambdaAtEdgeSubscriptions,
   CloudFormationObjectArn,
   canSubscribeLogGroup,
   isLogsConfig,
@@ -1106,3 +1107,100 @@ describe("addCloudWatchForwarderSubscriptions", () => {
     expect(val).toEqual(false);
   });
 });
+
+describe("addLambdaAtEdgeSubscriptions", () => {
+  const handlers: FunctionInfo[] = [
+    {
+      handler: {
+        name: "my-service-dev-edge",
+        events: [{ cloudFront: { eventType: "viewer-request" } } as any],
+      },
+      name: "edge",
+      type: RuntimeType.NODE,
+    },
+  ];
+  const logGroupName = "/aws/lambda/us-east-1.my-service-dev-edge";
+
+  // AWS provider answering with the resources of the stack and the log groups of the region
+  function edgeAwsMock(stackResources: string[], logGroups: string[], logGroupsError?: string) {
+    const aws = awsMock({}, "my-service-dev");
+    aws.request = (_service: string, method: string, params: any) => {
+      switch (method) {
+        case "describeStackResource":
+          return stackResources.includes(params.LogicalResourceId)
+            ? Promise.resolve({ StackResourceDetail: { LogicalResourceId: params.LogicalResourceId } })
+            : Promise.reject({ providerError: { code: "ValidationError" } });
+        case "describeLogGroups":
+          return logGroupsError !== undefined
+            ? Promise.reject({ providerError: { code: logGroupsError } })
+            : Promise.resolve({ logGroups: logGroups.map((name) => ({ logGroupName: name })) });
+        default:
+          return Promise.reject("Log group doesn't exist");
+      }
+    };
+    return aws;
+  }
+
+  it("adds the log group of the region of the stack and subscribes to it", async () => {
+    const service = serviceWithResources({});
+    (service.provider as any).region = "us-east-1";
+
+    const messages = await addLambdaAtEdgeSubscriptions(service, edgeAwsMock([], []), "my-func", handlers);
+    expect(messages).toEqual([
+      "Subscribed the Datadog Forwarder to /aws/lambda/us-east-1.my-service-dev-edge of Lambda@Edge function edge, the log groups of its replicas in other regions are not subscribed.",
+    ]);
+    expect(service.provider.compiledCloudFormationTemplate.Resources).toEqual({
+      EdgeEdgeLogGroup: {
+        Type: "AWS::Logs::LogGroup",
+        Properties: { LogGroupName: logGroupName },
+      },
+      EdgeEdgeLogGroupSubscription: {
+        Type: "AWS::Logs::SubscriptionFilter",
+        Properties: { DestinationArn: "my-func", FilterPattern: "", LogGroupName: { Ref: "EdgeEdgeLogGroup" } },
+      },
+    });
+  });
+
+  it("keeps the log group added by a previous deployment in the stack", async () => {
+    const service = serviceWithResources({});
+    (service.provider as any).region = "us-east-1";
+
+    await addLambdaAtEdgeSubscriptions(service, edgeAwsMock(["EdgeEdgeLogGroup"], [logGroupName]), "my-func", handlers);
+    expect(service.provider.compiledCloudFormationTemplate.Resources).toEqual({
+      EdgeEdgeLogGroup: {
+        Type: "AWS::Logs::LogGroup",
+        Properties: { LogGroupName: logGroupName },
+      },
+      EdgeEdgeLogGroupSubscription: {
+        Type: "AWS::Logs::SubscriptionFilter",
+        Properties: { DestinationArn: "my-func", FilterPattern: "", LogGroupName: { Ref: "EdgeEdgeLogGroup" } },
+      },
+    });
+  });
+
+  it("subscribes to the log group already created by a replica of the function", async () => {
+    const service = serviceWithResources({});
+    (service.provider as any).region = "us-east-1";
+
+    await addLambdaAtEdgeSubscriptions(service, edgeAwsMock([], [logGroupName]), "my-func", handlers);
+    expect(service.provider.compiledCloudFormationTemplate.Resources).toEqual({
+      EdgeEdgeLogGroupSubscription: {
+        Type: "AWS::Logs::SubscriptionFilter",
+        Properties: {
+          DestinationArn: "my-func",
+          FilterPattern: "",
+          LogGroupName: logGroupName,
+        },
+      },
+    });
+  });
+
+  it("fails when the log groups can't be described", async () => {
+    const service = serviceWithResources({});
+    (service.provider as any).region = "us-east-1";
+
+    await expect(
+      addLambdaAtEdgeSubscriptions(service, edgeAwsMock([], [], "AccessDeniedException"), "my-func", handlers),
+    ).rejects.toEqual({ providerError: { code: "AccessDeniedException" } });
+  });
+});
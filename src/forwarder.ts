@@ -59,6 +59,7 @@ const REST_EXECUTION_LOG_GROUP_KEY = "RestExecutionLogGroup";
 const REST_EXECUTION_SUBSCRIPTION_KEY = "RestExecutionLogGroupSubscription";
 const WEBSOCKETS_EXECUTION_LOG_GROUP_KEY = "WebsocketsExecutionLogGroup";
 const WEBSOCKETS_EXECUTION_SUBCRIPTION_KEY = "WebsocketsExecutionLogGroupSubscription";
+const EDGE_LOG_GROUP_SUFFIX = "EdgeLogGroup";
 
 // When users define ARN with CloudFormation functions, the ARN takes this type instead of a string.
 export interface CloudFormationObjectArn {
@@ -66,6 +67,18 @@ export interface CloudFormationObjectArn {
   "arn:aws"?: string;
 }
 
+/**
+ * Returns whether a resource of the template is a log group the plugin adds to subscribe it to the Datadog
+ * Forwarder, i.e. an execution log group of the APIs or a log group of a Lambda@Edge function.
+ */
+export function isAddedLogGroup(logicalId: string) {
+  return (
+    logicalId === REST_EXECUTION_LOG_GROUP_KEY ||
+    logicalId === WEBSOCKETS_EXECUTION_LOG_GROUP_KEY ||
+    logicalId.endsWith(EDGE_LOG_GROUP_SUFFIX)
+  );
+}
+
 function isLogGroup(value: any): value is LogGroupResource {
   return value.Type === logGroupKey;
 }
@@ -142,13 +155,7 @@ export async function addCloudWatchForwarderSubscriptions(
     const logGroupName = resource.Properties.LogGroupName;
     const scopedSubName = `${name}Subscription`;
 
-    let expectedSubName = `${service.getServiceName()}-${aws.getStage()}-${scopedSubName}-`;
-
-    const stackName = aws.naming.getStackName();
-    if (stackName) {
-      expectedSubName = `${stackName}-${scopedSubName}-`;
-    }
-
+    const expectedSubName = getExpectedSubscriptionName(service, aws, scopedSubName);
     const canSub = await canSubscribeLogGroup(aws, logGroupName, expectedSubName);
     if (!canSub) {
       errors.push(
@@ -157,13 +164,105 @@ export async function addCloudWatchForwarderSubscriptions(
       continue;
     }
     // Create subscriptions for each log group
-    const subscription = subscribeToLogGroup(functionArn, name);
+    const subscription = subscribeToLogGroup(functionArn, { Ref: name });
     resources[scopedSubName] = subscription;
   }
 
   return errors;
 }
 
+/**
+ * Subscribes the forwarder to the log groups Lambda@Edge functions write to in the region of the stack,
+ * `/aws/lambda/<region>.<function name>`. The log group is added to the stack unless it exists outside of the
+ * stack, e.g. created by a replica of the function, and is kept in the stack once added so CloudFormation doesn't
+ * delete it on the next deployment. Replicas running in other regions write to log groups of these regions instead.
+ * @returns messages describing the subscriptions, for the plugin log
+ */
+export async function addLambdaAtEdgeSubscriptions(
+  service: Service,
+  aws: Aws,
+  functionArn: CloudFormationObjectArn | string,
+  handlers: FunctionInfo[],
+) {
+  const resources = service.provider.compiledCloudFormationTemplate?.Resources;
+  if (resources === undefined) {
+    return [];
+  }
+  const { region } = service.provider;
+  const messages = [];
+  for (const { name, handler } of handlers) {
+    const functionName = handler.name ?? `${service.getServiceName()}-${aws.getStage()}-${name}`;
+    const logGroupName = `/aws/lambda/${region}.${functionName}`;
+    const logGroupLogicalId = getLogGroupLogicalId(name).replace(/LogGroup$/, EDGE_LOG_GROUP_SUFFIX);
+    const scopedSubName = `${logGroupLogicalId}Subscription`;
+
+    const canSub = await canSubscribeLogGroup(
+      aws,
+      logGroupName,
+      getExpectedSubscriptionName(service, aws, scopedSubName),
+    );
+    if (!canSub) {
+      messages.push(
+        `Could not subscribe Datadog Forwarder due to too many existing subscription filter(s) for ${logGroupName}.`,
+      );
+      continue;
+    }
+    if (!(await stackHasResource(aws, logGroupLogicalId)) && (await logGroupExists(aws, logGroupName))) {
+      resources[scopedSubName] = subscribeToLogGroup(functionArn, logGroupName);
+    } else {
+      resources[logGroupLogicalId] = { Type: logGroupKey, Properties: { LogGroupName: logGroupName } };
+      resources[scopedSubName] = subscribeToLogGroup(functionArn, { Ref: logGroupLogicalId });
+    }
+    messages.push(
+      `Subscribed the Datadog Forwarder to ${logGroupName} of Lambda@Edge function ${name}, the log groups of its replicas in other regions are not subscribed.`,
+    );
+  }
+  return messages;
+}
+
+function getExpectedSubscriptionName(service: Service, aws: Aws, scopedSubName: string) {
+  const stackName = aws.naming.getStackName();
+  if (stackName) {
+    return `${stackName}-${scopedSubName}-`;
+  }
+  return `${service.getServiceName()}-${aws.getStage()}-${scopedSubName}-`;
+}
+
+async function logGroupExists(aws: Aws, logGroupName: string) {
+  try {
+    const result: { logGroups: { logGroupName: string }[] } = await aws.request("CloudWatchLogs", "describeLogGroups", {
+      logGroupNamePrefix: logGroupName,
+    });
+    return result.logGroups.some((logGroup) => logGroup.logGroupName === logGroupName);
+  } catch (err) {
+    if (getErrorCode(err) === "ResourceNotFoundException") {
+      return false;
+    }
+    throw err;
+  }
+}
+
+// CloudFormation fails with a validation error when the stack, or the resource in the stack, doesn't exist
+async function stackHasResource(aws: Aws, logicalId: string) {
+  try {
+    await aws.request("CloudFormation", "describeStackResource", {
+      StackName: aws.naming.getStackName(),
+      LogicalResourceId: logicalId,
+    });
+    return true;
+  } catch (err) {
+    if (getErrorCode(err) === "ValidationError") {
+      return false;
+    }
+    throw err;
+  }
+}
+
+// The AWS provider of the Serverless Framework wraps the errors of the AWS SDK in `providerError`
+function getErrorCode(err: any): string | undefined {
+  return err?.providerError?.code ?? err?.code;
+}
+
 export async function canSubscribeLogGroup(aws: Aws, logGroupName: string, expectedSubName: string) {
   const subscriptionFilters = await describeSubscriptionFilters(aws, logGroupName);
   const numberOfActiveSubscriptionFilters: number = subscriptionFilters.length;
@@ -269,13 +368,13 @@ function shouldSubscribe(
   return true;
 }
 
-function subscribeToLogGroup(functionArn: string | CloudFormationObjectArn, name: string) {
+function subscribeToLogGroup(functionArn: string | CloudFormationObjectArn, logGroupName: string | { Ref: string }) {
   const subscription = {
     Type: logGroupSubscriptionKey,
     Properties: {
       DestinationArn: functionArn,
       FilterPattern: "",
-      LogGroupName: { Ref: name },
+      LogGroupName: logGroupName,
     },
   };
   return subscription;
@@ -0,0 +1,145 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import fs from "fs";
+import mock from "mock-fs";
+import { promisify } from "util";
+import { diffLayers, generateLayers, LayersClient, LayerVersion, updateLayersFile } from "./generate-layers-json";
+
+function createLocalClient(publishedLayers: { [region: string]: { [layerName: string]: number[] } }): LayersClient {
+  return {
+    listRegions: async () => Object.keys(publishedLayers),
+    listLayerVersions: async (region, layerName): Promise<LayerVersion[]> =>
+      (publishedLayers[region][layerName] ?? []).map((version) => ({
+        LayerVersionArn: `arn:aws:lambda:${region}:464622532012:layer:${layerName}:${version}`,
+        Version: version,
+      })),
+  };
+}
+
+describe("generateLayers", () => {
+  it("uses the latest version of every layer published in each region", async () => {
+    const client = createLocalClient({
+      "us-east-1": { "Datadog-Node14-x": [78, 80, 79], "Datadog-Extension": [22] },
+      "af-south-1": { "Datadog-Python39": [58] },
+      "ap-east-2": {},
+    });
+    expect(await generateLayers(client)).toEqual({
+      regions: {
+        "af-south-1": {
+          "python3.9": "arn:aws:lambda:af-south-1:464622532012:layer:Datadog-Python39:58",
+        },
+        "us-east-1": {
+          "nodejs14.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:80",
+          extension: "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:22",
+        },
+      },
+    });
+  });
+});
+
+describe("diffLayers", () => {
+  it("reports version bumps, additions and removals per region and runtime", () => {
+    const previousLayers = {
+      regions: {
+        "us-east-1": {
+          "nodejs14.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:78",
+          "python3.9": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Python39:58",
+          extension: "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:22",
+        },
+      },
+    };
+    const layers = {
+      regions: {
+        "us-east-1": {
+          "nodejs14.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:80",
+          "python3.9": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Python39:58",
+        },
+        "us-west-2": {
+          extension: "arn:aws:lambda:us-west-2:464622532012:layer:Datadog-Extension:22",
+        },
+      },
+    };
+    expect(diffLayers(previousLayers, layers)).toEqual([
+      {
+        region: "us-east-1",
+        layerKey: "extension",
+        type: "removed",
+        previousArn: "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:22",
+        arn: undefined,
+      },
+      {
+        region: "us-east-1",
+        layerKey: "nodejs14.x",
+        type: "updated",
+        previousArn: "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:78",
+        arn: "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:80",
+      },
+      {
+        region: "us-west-2",
+        layerKey: "extension",
+        type: "added",
+        previousArn: undefined,
+        arn: "arn:aws:lambda:us-west-2:464622532012:layer:Datadog-Extension:22",
+      },
+    ]);
+  });
+});
+
+describe("updateLayersFile", () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("writes the layers and logs the changes", async () => {
+    mock({
+      "/layers.json": JSON.stringify({
+        regions: {
+          "us-east-1": { "nodejs14.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:78" },
+        },
+      }),
+    });
+    const logs: string[] = [];
+    const client = createLocalClient({
+      "us-east-1": { "Datadog-Node14-x": [80], "Datadog-Python39": [58] },
+    });
+
+    await updateLayersFile(client, "/layers.json", (message) => logs.push(message));
+    expect(logs).toEqual([
+      "Layer changes for /layers.json:",
+      "  us-east-1 nodejs14.x: 78 -> 80",
+      "  us-east-1 python3.9: added version 58",
+    ]);
+    expect(JSON.parse(await promisify(fs.readFile)("/layers.json", "utf-8"))).toEqual({
+      regions: {
+        "us-east-1": {
+          "nodejs14.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:80",
+          "python3.9": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Python39:58",
+        },
+      },
+    });
+  });
+
+  it("fails without writing the layers when a region loses a layer", async () => {
+    const previousLayers = JSON.stringify({
+      regions: {
+        "us-east-1": { "nodejs14.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:78" },
+        "eu-west-1": { "nodejs14.x": "arn:aws:lambda:eu-west-1:464622532012:layer:Datadog-Node14-x:78" },
+      },
+    });
+    mock({ "/layers.json": previousLayers });
+    const client = createLocalClient({
+      "us-east-1": { "Datadog-Node14-x": [78] },
+    });
+
+    await expect(updateLayersFile(client, "/layers.json", () => {})).rejects.toThrow(
+      "Layers were removed from /layers.json, which would break the functions using them:\n  - eu-west-1 nodejs14.x: removed version 78",
+    );
+    expect(await promisify(fs.readFile)("/layers.json", "utf-8")).toEqual(previousLayers);
+  });
+});
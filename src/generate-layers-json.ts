@@ -0,0 +1,174 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import fs from "fs";
+import { resolve } from "path";
+import { promisify } from "util";
+import { LayerJSON, layerNames } from "./layer";
+
+export interface LayerVersion {
+  LayerVersionArn?: string;
+  Version?: number;
+}
+
+/**
+ * Lambda API used by the generator, implemented with the AWS SDK by `createAwsLayersClient`.
+ */
+export interface LayersClient {
+  listRegions(): Promise<string[]>;
+  // Calls Lambda `ListLayerVersions` for the layer in the region
+  listLayerVersions(region: string, layerName: string): Promise<LayerVersion[]>;
+}
+
+export interface LayerChange {
+  region: string;
+  layerKey: string;
+  type: "added" | "removed" | "updated";
+  previousArn?: string;
+  arn?: string;
+}
+
+/**
+ * Builds the layers catalog from the latest version of every layer in every region of the client.
+ */
+export async function generateLayers(client: LayersClient): Promise<LayerJSON> {
+  const layers: LayerJSON = { regions: {} };
+  const regions = [...(await client.listRegions())].sort();
+  for (const region of regions) {
+    for (const [layerKey, layerName] of Object.entries(layerNames)) {
+      const layerVersions = await client.listLayerVersions(region, layerName);
+      const latestVersion = layerVersions.reduce(
+        (latest: LayerVersion | undefined, layerVersion) =>
+          latest === undefined || (layerVersion.Version ?? 0) > (latest.Version ?? 0) ? layerVersion : latest,
+        undefined,
+      );
+      if (latestVersion?.LayerVersionArn === undefined) {
+        continue;
+      }
+      layers.regions[region] = { ...layers.regions[region], [layerKey]: latestVersion.LayerVersionArn };
+    }
+  }
+  return layers;
+}
+
+/**
+ * Lists the layers added, removed or updated between two versions of the layers catalog.
+ */
+export function diffLayers(previousLayers: LayerJSON, layers: LayerJSON): LayerChange[] {
+  const changes: LayerChange[] = [];
+  const regions = new Set([...Object.keys(previousLayers.regions), ...Object.keys(layers.regions)]);
+  for (const region of Array.from(regions).sort()) {
+    const previousRegionLayers = previousLayers.regions[region] ?? {};
+    const regionLayers = layers.regions[region] ?? {};
+    const layerKeys = new Set([...Object.keys(previousRegionLayers), ...Object.keys(regionLayers)]);
+    for (const layerKey of Array.from(layerKeys).sort()) {
+      const previousArn = previousRegionLayers[layerKey];
+      const arn = regionLayers[layerKey];
+      if (previousArn === arn) {
+        continue;
+      }
+      const type = previousArn === undefined ? "added" : arn === undefined ? "removed" : "updated";
+      changes.push({ region, layerKey, type, previousArn, arn });
+    }
+  }
+  return changes;
+}
+
+export function formatLayerChange({ region, layerKey, type, previousArn, arn }: LayerChange) {
+  switch (type) {
+    case "added":
+      return `${region} ${layerKey}: added version ${getLayerVersion(arn!)}`;
+    case "removed":
+      return `${region} ${layerKey}: removed version ${getLayerVersion(previousArn!)}`;
+    case "updated":
+      return `${region} ${layerKey}: ${getLayerVersion(previousArn!)} -> ${getLayerVersion(arn!)}`;
+  }
+}
+
+function getLayerVersion(layerArn: string) {
+  return layerArn.slice(layerArn.lastIndexOf(":") + 1);
+}
+
+/**
+ * Regenerates a layers catalog file, printing the changes. Fails without writing the file when a region
+ * loses a layer it previously had, since the functions using it could no longer be instrumented.
+ */
+export async function updateLayersFile(client: LayersClient, filePath: string, log: (message: string) => void) {
+  const previousLayers: LayerJSON = JSON.parse(await promisify(fs.readFile)(filePath, "utf-8"));
+  const layers = await generateLayers(client);
+  const changes = diffLayers(previousLayers, layers);
+
+  log(changes.length === 0 ? `No layer changes for ${filePath}` : `Layer changes for ${filePath}:`);
+  for (const change of changes) {
+    log(`  ${formatLayerChange(change)}`);
+  }
+
+  const removals = changes.filter(({ type }) => type === "removed");
+  if (removals.length > 0) {
+    throw new Error(
+      `Layers were removed from ${filePath}, which would break the functions using them:\n${removals
+        .map((removal) => `  - ${formatLayerChange(removal)}`)
+        .join("\n")}`,
+    );
+  }
+  await promisify(fs.writeFile)(filePath, `${JSON.stringify(layers, undefined, 2)}\n`);
+  return changes;
+}
+
+/**
+ * Creates a client calling the AWS APIs with the credentials of the given profile, or the default ones.
+ * @param partitionRegion - a region of the partition to list the regions of, e.g. `us-gov-west-1` for GovCloud
+ */
+export async function createAwsLayersClient(partitionRegion: string, profile?: string): Promise<LayersClient> {
+  const { EC2, Lambda, SharedIniFileCredentials } = await import("aws-sdk");
+  const credentials = profile === undefined ? undefined : new SharedIniFileCredentials({ profile });
+  return {
+    listRegions: async () => {
+      const { Regions } = await new EC2({ credentials, region: partitionRegion }).describeRegions().promise();
+      return (Regions ?? []).map(({ RegionName }) => RegionName!);
+    },
+    listLayerVersions: async (region, layerName) => {
+      const lambda = new Lambda({ credentials, region });
+      try {
+        const { LayerVersions } = await lambda.listLayerVersions({ LayerName: layerName }).promise();
+        return LayerVersions ?? [];
+      } catch (err) {
+        // Layers aren't published in every region
+        if ((err as { code?: string }).code === "ResourceNotFoundException") {
+          return [];
+        }
+        throw err;
+      }
+    },
+  };
+}
+
+async function main() {
+  const govCloudProfile = process.env.GOVCLOUD_AWS_PROFILE;
+  if (govCloudProfile === undefined) {
+    throw new Error("Set GOVCLOUD_AWS_PROFILE to the AWS profile used to list the GovCloud layers.");
+  }
+  const sourceDirectory = resolve(__dirname, "../../src");
+  await updateLayersFile(
+    await createAwsLayersClient("us-east-1"),
+    resolve(sourceDirectory, "layers.json"),
+    console.log,
+  );
+  await updateLayersFile(
+    await createAwsLayersClient("us-gov-west-1", govCloudProfile),
+    resolve(sourceDirectory, "layers-gov.json"),
+    console.log,
+  );
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
+}
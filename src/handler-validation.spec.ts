@@ -0,0 +1,165 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import JSZip from "jszip";
+import mock from "mock-fs";
+import Service from "serverless/classes/Service";
+import { findMissingCustomHandlers, findMissingHandlers, findMissingHandlersInArtifacts } from "./handler-validation";
+import { RuntimeType } from "./layer";
+
+function createFunction(name: string, type: RuntimeType, handler: string, extra: { [key: string]: any } = {}) {
+  return { name, type, handler: { handler, events: [], ...extra } };
+}
+
+async function createZip(files: { [path: string]: string }) {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("findMissingHandlers", () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("accepts the handlers exported by their node or python module", async () => {
+    mock({
+      "/service/src/app.js": "exports.handler = async () => {};",
+      "/service/src/esm.mjs": "export const handler = async () => {};",
+      "/service/src/typed.ts": "export async function handler() {}",
+      "/service/pkg/module.py": "def handler(event, context):\n    pass\n",
+    });
+    const handlers = [
+      createFunction("app", RuntimeType.NODE, "src/app.handler"),
+      createFunction("esm", RuntimeType.NODE, "src/esm.handler"),
+      createFunction("typed", RuntimeType.NODE, "src/typed.handler"),
+      createFunction("python", RuntimeType.PYTHON, "pkg.module.handler"),
+    ];
+    expect(await findMissingHandlers(handlers, "/service")).toEqual([]);
+  });
+
+  it("reports the handlers whose file or exported function is missing", async () => {
+    mock({
+      "/service/src/app.js": "exports.main = async () => {};",
+      "/service/app.py": "def main(event, context):\n    pass\n",
+    });
+    const handlers = [
+      createFunction("typo", RuntimeType.NODE, "src/app.handler"),
+      createFunction("missing", RuntimeType.NODE, "src/missing.handler"),
+      createFunction("python", RuntimeType.PYTHON, "app.handler"),
+    ];
+    expect(await findMissingHandlers(handlers, "/service")).toEqual([
+      "typo: src/app.handler (src/app.js doesn't export handler)",
+      "missing: src/missing.handler (src/missing.js, src/missing.mjs, src/missing.cjs, src/missing.ts, src/missing.mts, src/missing.cts not found)",
+      "python: app.handler (app.py doesn't export handler)",
+    ]);
+  });
+
+  it("validates the original handler of redirected functions and skips runtimes without redirection", async () => {
+    mock({ "/service/app.js": "module.exports = { handler };" });
+    const handlers = [
+      createFunction("redirected", RuntimeType.NODE, "/opt/nodejs/node_modules/datadog-lambda-js/handler.handler", {
+        environment: { DD_LAMBDA_HANDLER: "app.handler" },
+      }),
+      createFunction("java", RuntimeType.JAVA, "com.example.Handler"),
+    ];
+    expect(await findMissingHandlers(handlers, "/service")).toEqual([]);
+  });
+});
+
+describe("findMissingHandlersInArtifacts", () => {
+  const service = { getServiceName: () => "my-service", package: {} } as any as Service;
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("reports the handlers missing from the deployment packages", async () => {
+    mock({
+      "/service/.serverless/my-service.zip": await createZip({ "src/app.js": "exports.handler = () => {};" }),
+      "/service/.serverless/other.zip": await createZip({ "other.py": "def main(event, context):\n    pass\n" }),
+    });
+    const handlers = [
+      createFunction("app", RuntimeType.NODE, "src/app.handler"),
+      createFunction("missing", RuntimeType.NODE, "src/missing.handler"),
+      createFunction("other", RuntimeType.PYTHON, "other.handler", { package: { artifact: ".serverless/other.zip" } }),
+    ];
+    expect(await findMissingHandlersInArtifacts(service, handlers, "/service")).toEqual([
+      "missing: src/missing.handler (src/missing.js, src/missing.mjs, src/missing.cjs not found) in .serverless/my-service.zip",
+      "other: other.handler (other.py doesn't export handler) in .serverless/other.zip",
+    ]);
+  });
+
+  it("reports the functions whose deployment package isn't a valid zip file", async () => {
+    mock({ "/service/.serverless/my-service.zip": "not a zip file" });
+    const handlers = [createFunction("app", RuntimeType.NODE, "src/app.handler")];
+    expect(await findMissingHandlersInArtifacts(service, handlers, "/service")).toEqual([
+      "app: src/app.handler (.serverless/my-service.zip can't be read as a zip file)",
+    ]);
+  });
+
+  it("skips the functions whose deployment package can't be found", async () => {
+    mock({});
+    const handlers = [createFunction("app", RuntimeType.NODE, "src/app.handler")];
+    expect(await findMissingHandlersInArtifacts(service, handlers, "/service")).toEqual([]);
+  });
+});
+
+describe("findMissingCustomHandlers", () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("resolves the custom handlers in the service and in the layers of the service", async () => {
+    mock({
+      "/service/wrapper.js": "exports.handler = async () => {};",
+      "/service/layers/shared/nodejs/wrapper.js": "exports.handler = async () => {};",
+      "/service/layers/shared/python/shared_wrapper.py": "def handler(event, context):\n    pass\n",
+    });
+    const service = { layers: { shared: { path: "layers/shared" } } } as any as Service;
+    const layers = [{ Ref: "SharedLambdaLayer" }];
+    const handlers = [
+      createFunction("node", RuntimeType.NODE, "app.handler"),
+      createFunction("layer", RuntimeType.NODE, "app.handler", { layers }),
+      createFunction("python", RuntimeType.PYTHON, "app.handler", { layers }),
+    ];
+    const customHandler = {
+      node: "wrapper.handler",
+      python: "shared_wrapper.handler",
+      functions: { layer: "/opt/nodejs/wrapper.handler" },
+    };
+    expect(await findMissingCustomHandlers(service, handlers, customHandler, "/service")).toEqual([]);
+  });
+
+  it("reports the custom handlers which can't be found", async () => {
+    mock({ "/service/wrapper.js": "exports.main = async () => {};" });
+    const service = { layers: {} } as any as Service;
+    const handlers = [
+      createFunction("node", RuntimeType.NODE, "app.handler"),
+      createFunction("layer", RuntimeType.NODE, "app.handler"),
+    ];
+    const customHandler = { node: "wrapper.handler", functions: { layer: "/opt/nodejs/wrapper.handler" } };
+    expect(await findMissingCustomHandlers(service, handlers, customHandler, "/service")).toEqual([
+      "node: wrapper.handler (wrapper.js doesn't export handler)",
+      "layer: /opt/nodejs/wrapper.handler (nodejs/wrapper.js, nodejs/wrapper.mjs, nodejs/wrapper.cjs not found)",
+    ]);
+  });
+
+  it("doesn't check the custom handlers which may come from layers published outside of the service", async () => {
+    mock({});
+    const layers = ["arn:aws:lambda:us-east-1:123456789012:layer:shared:3"];
+    const handlers = [
+      createFunction("node", RuntimeType.NODE, "app.handler", { layers }),
+      createFunction("python", RuntimeType.PYTHON, "app.handler", { layers }),
+    ];
+    const customHandler = { node: "/opt/nodejs/wrapper.handler", python: "shared_wrapper.handler" };
+    expect(await findMissingCustomHandlers({} as Service, handlers, customHandler, "/service")).toEqual([]);
+  });
+});
@@ -0,0 +1,271 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import fs from "fs";
+import JSZip from "jszip";
+import { join, resolve } from "path";
+import Service from "serverless/classes/Service";
+import { promisify } from "util";
+import { CustomHandlerMap } from "./env";
+import {
+  FunctionInfo,
+  isDatadogLayer,
+  isFunctionDefinitionHandler,
+  LayerReference,
+  runtimeRegistry,
+  RuntimeType,
+} from "./layer";
+import { datadogHandlerEnvVar, getCustomHandler } from "./wrapper";
+
+interface HandlerModule {
+  handler: string;
+  modulePath: string;
+  symbol: string;
+  extensions: string[];
+}
+
+// Source files bundlers such as serverless-webpack or serverless-esbuild compile to the packaged ones
+const nodeSourceExtensions = [".ts", ".mts", ".cts"];
+const nodeExtensions = [".js", ".mjs", ".cjs"];
+const pythonExtensions = [".py"];
+
+/**
+ * Finds the functions whose handler doesn't resolve to a file exporting the handler function in the
+ * service directory, which the Datadog handler would fail to import once redirected.
+ * @param servicePath - the directory the handlers are resolved from
+ */
+export async function findMissingHandlers(handlers: FunctionInfo[], servicePath: string) {
+  const missingHandlers: string[] = [];
+  for (const func of handlers) {
+    const handlerModule = getHandlerModule(func);
+    if (handlerModule === undefined) {
+      continue;
+    }
+    const extensions =
+      func.type === RuntimeType.NODE
+        ? [...handlerModule.extensions, ...nodeSourceExtensions]
+        : handlerModule.extensions;
+    const problem = await findHandlerProblem({ ...handlerModule, extensions }, async (filePath) => {
+      try {
+        return await promisify(fs.readFile)(resolve(servicePath, filePath), "utf-8");
+      } catch (err) {
+        return undefined;
+      }
+    });
+    if (problem !== undefined) {
+      missingHandlers.push(`${func.name}: ${problem}`);
+    }
+  }
+  return missingHandlers;
+}
+
+/**
+ * Finds the functions whose handler doesn't resolve to a file exporting the handler function in the
+ * deployment package, once the service has been packaged. Packages which can't be found are skipped, and the
+ * functions whose package can't be read as a zip file are reported.
+ * @param servicePath - the directory the packages are resolved from
+ */
+export async function findMissingHandlersInArtifacts(service: Service, handlers: FunctionInfo[], servicePath: string) {
+  const artifacts = new Map<string, JSZip | null | undefined>();
+  const missingHandlers: string[] = [];
+  for (const func of handlers) {
+    const handlerModule = getHandlerModule(func);
+    if (handlerModule === undefined) {
+      continue;
+    }
+    const artifact = resolve(servicePath, getArtifactPath(service, func));
+    if (!artifacts.has(artifact)) {
+      artifacts.set(artifact, await loadArtifact(artifact));
+    }
+    const zip = artifacts.get(artifact);
+    if (zip === undefined) {
+      continue;
+    }
+    if (zip === null) {
+      missingHandlers.push(
+        `${func.name}: ${handlerModule.handler} (${getArtifactPath(service, func)} can't be read as a zip file)`,
+      );
+      continue;
+    }
+    const problem = await findHandlerProblem(handlerModule, async (filePath) => zip.file(filePath)?.async("string"));
+    if (problem !== undefined) {
+      missingHandlers.push(`${func.name}: ${problem} in ${getArtifactPath(service, func)}`);
+    }
+  }
+  return missingHandlers;
+}
+
+/**
+ * Finds the functions whose custom handler, see `customHandler`, can't be resolved to a file exporting it in
+ * the service directory or in the directories of the layers of the service the function uses. Custom handlers
+ * which may come from layers published outside of the service aren't checked.
+ * @param servicePath - the directory the handlers and the layers are resolved from
+ * @param namePrefix - the prefix of the names of the mirrored Datadog layers, see `LayerSource`
+ */
+export async function findMissingCustomHandlers(
+  service: Service,
+  handlers: FunctionInfo[],
+  customHandler: string | CustomHandlerMap | undefined,
+  servicePath: string,
+  namePrefix?: string,
+) {
+  const missingHandlers: string[] = [];
+  for (const func of handlers) {
+    const funcCustomHandler = getCustomHandler(func, customHandler);
+    if (funcCustomHandler === undefined || !isFunctionDefinitionHandler(func.handler)) {
+      continue;
+    }
+    const handlerModule = parseHandler(func.type, funcCustomHandler);
+    if (handlerModule === undefined) {
+      continue;
+    }
+    // Layers are extracted to /opt, where Node handlers are referenced by absolute path and from where
+    // Python adds `/opt/python` to the module search path
+    const { layerDirectories, externalLayers } = getLayerDirectories(service, func, servicePath);
+    const isLayerHandler = handlerModule.modulePath.startsWith("/opt/");
+    const directories = isLayerHandler
+      ? layerDirectories
+      : func.type === RuntimeType.PYTHON
+      ? [servicePath, ...layerDirectories.map((directory) => join(directory, "python"))]
+      : [servicePath];
+    const modulePath = isLayerHandler ? handlerModule.modulePath.slice("/opt/".length) : handlerModule.modulePath;
+    const problem = await findHandlerProblem({ ...handlerModule, modulePath }, async (filePath) => {
+      for (const directory of directories) {
+        try {
+          return await promisify(fs.readFile)(resolve(directory, filePath), "utf-8");
+        } catch (err) {
+          continue;
+        }
+      }
+    });
+    // The Datadog layers only hold the Datadog library, which doesn't shadow the Python modules of the service
+    const mayBeInExternalLayer = isLayerHandler
+      ? externalLayers.length > 0
+      : func.type === RuntimeType.PYTHON && externalLayers.some((layer) => !isDatadogLayer(layer, namePrefix));
+    if (problem === undefined || mayBeInExternalLayer) {
+      continue;
+    }
+    missingHandlers.push(`${func.name}: ${problem}`);
+  }
+  return missingHandlers;
+}
+
+function getHandlerModule({ type, runtime, handler }: FunctionInfo): HandlerModule | undefined {
+  if (!isFunctionDefinitionHandler(handler)) {
+    return;
+  }
+  if (runtime !== undefined && runtimeRegistry[runtime]?.redirectHandler === false) {
+    return;
+  }
+  // Functions redirected by a previous run already have their original handler in the environment
+  return parseHandler(type, handler.environment?.[datadogHandlerEnvVar] ?? handler.handler);
+}
+
+function parseHandler(type: RuntimeType, handler: string): HandlerModule | undefined {
+  const separator = handler.lastIndexOf(".");
+  if (separator === -1) {
+    return;
+  }
+  const modulePath = handler.slice(0, separator);
+  const symbol = handler.slice(separator + 1);
+  switch (type) {
+    case RuntimeType.NODE:
+      return { handler, modulePath, symbol, extensions: nodeExtensions };
+    case RuntimeType.PYTHON:
+      // Python handlers can name a module of a package with dots, e.g. `package.module.handler`
+      return { handler, modulePath: modulePath.replace(/\./g, "/"), symbol, extensions: pythonExtensions };
+  }
+}
+
+// Directories of the layers of the service used by a function, which the Serverless Framework references as
+// `<Name>LambdaLayer`, and the other layers of the function, whose content can't be inspected
+function getLayerDirectories(service: Service, { handler }: FunctionInfo, servicePath: string) {
+  const layerDirectories: string[] = [];
+  const externalLayers: LayerReference[] = [];
+  for (const layer of ((handler as any).layers ?? []) as LayerReference[]) {
+    const serviceLayer = Object.entries(service.layers ?? {}).find(
+      ([name]) => typeof layer !== "string" && layer.Ref === getLayerLogicalId(name),
+    );
+    if (serviceLayer?.[1].path !== undefined) {
+      layerDirectories.push(resolve(servicePath, serviceLayer[1].path));
+    } else {
+      externalLayers.push(layer);
+    }
+  }
+  return { layerDirectories, externalLayers };
+}
+
+// Same normalization as the naming of the AWS provider of the Serverless Framework
+function getLayerLogicalId(layerName: string) {
+  const normalizedName = layerName.replace(/-/g, "Dash").replace(/_/g, "Underscore");
+  return `${normalizedName[0].toUpperCase()}${normalizedName.slice(1)}LambdaLayer`;
+}
+
+async function findHandlerProblem(
+  { handler, modulePath, symbol, extensions }: HandlerModule,
+  readFile: (filePath: string) => Promise<string | undefined>,
+) {
+  for (const extension of extensions) {
+    const source = await readFile(`${modulePath}${extension}`);
+    if (source === undefined) {
+      continue;
+    }
+    const exported = extension === ".py" ? definesPythonSymbol(source, symbol) : exportsNodeSymbol(source, symbol);
+    return exported ? undefined : `${handler} (${modulePath}${extension} doesn't export ${symbol})`;
+  }
+  return `${handler} (${extensions.map((extension) => `${modulePath}${extension}`).join(", ")} not found)`;
+}
+
+function exportsNodeSymbol(source: string, symbol: string) {
+  const name = escapeRegExp(symbol);
+  const patterns = [
+    new RegExp(`exports\\.${name}\\b`),
+    new RegExp(`exports\\[["'\`]${name}["'\`]\\]`),
+    new RegExp(`export\\s+(async\\s+)?(function\\*?|const|let|var|class)\\s+${name}\\b`),
+    new RegExp(`export\\s*\\{[^}]*\\b${name}\\b[^}]*\\}`),
+  ];
+  if (patterns.some((pattern) => pattern.test(source))) {
+    return true;
+  }
+  // Objects assigned to `module.exports`, and the export maps of bundles, list the symbol by name
+  return /module\.exports\s*=|__export\(/.test(source) && new RegExp(`\\b${name}\\b`).test(source);
+}
+
+function definesPythonSymbol(source: string, symbol: string) {
+  const name = escapeRegExp(symbol);
+  return [
+    new RegExp(`^(async\\s+)?def\\s+${name}\\s*\\(`, "m"),
+    new RegExp(`^${name}\\s*=`, "m"),
+    new RegExp(`^from\\s+\\S+\\s+import\\s+.*\\b${name}\\b`, "m"),
+  ].some((pattern) => pattern.test(source));
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getArtifactPath(service: Service, { handler }: FunctionInfo) {
+  return (
+    handler.package?.artifact ?? (service as any).package?.artifact ?? `.serverless/${service.getServiceName()}.zip`
+  );
+}
+
+// Returns undefined when the package can't be found, and null when it isn't a valid zip file
+async function loadArtifact(artifact: string) {
+  let content: Buffer;
+  try {
+    content = await promisify(fs.readFile)(artifact);
+  } catch (err) {
+    return;
+  }
+  try {
+    return await JSZip.loadAsync(content);
+  } catch (err) {
+    return null;
+  }
+}
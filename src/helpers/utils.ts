@@ -1,5 +1,6 @@
 import { AxiosRequestConfig, default as axios } from "axios";
 import fs from "fs";
+import yaml from "js-yaml";
 import ProxyAgent from "proxy-agent";
 import { promisify } from "util";
 import type { SpanTag, SpanTags } from "./interfaces";
@@ -18,6 +19,10 @@ export const pick = <T extends object, K extends keyof T>(base: T, keys: K[]) =>
 export const getConfig = async (configPath: string) => {
   const configFile = await promisify(fs.readFile)(configPath, "utf-8");
 
+  if (/\.ya?ml$/i.test(configPath)) {
+    return yaml.load(configFile);
+  }
+
   return JSON.parse(configFile);
 };
 
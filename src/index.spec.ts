@@ -16,9 +16,11 @@ jest.mock("./monitors.ts", () => {
   };
 });
 const ServerlessPlugin = require("./index");
+import fs from "fs";
 import mock from "mock-fs";
 import { FunctionDefinition } from "serverless";
 import Aws from "serverless/plugins/aws/provider/awsProvider";
+import { promisify } from "util";
 
 const SEM_VER_REGEX =
   /^v(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(-(0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(\.(0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*)?(\+[0-9a-zA-Z-]+(\.[0-9a-zA-Z-]+)*)?$/;
@@ -292,6 +294,729 @@ describe("ServerlessPlugin", () => {
       });
     });
 
+    it("applies the datadog block of a function over the service level configuration", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            api: {
+              handler: "api.handler",
+              runtime: "nodejs14.x",
+            },
+            worker: {
+              handler: "worker.handler",
+              runtime: "nodejs14.x",
+              datadog: {
+                addExtension: false,
+                enableDDTracing: false,
+                captureLambdaPayload: true,
+                service: "batch-worker",
+              },
+            },
+          },
+          custom: {
+            datadog: {
+              apiKey: "1234",
+              service: "my-service",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      const { api, worker } = serverless.service.functions as any;
+      expect(api.layers).toContain("arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:22");
+      expect(api.environment).toMatchObject({
+        DD_TRACE_ENABLED: true,
+        DD_CAPTURE_LAMBDA_PAYLOAD: false,
+        DD_SERVICE: "my-service",
+      });
+      expect(worker.layers).not.toContain("arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:22");
+      expect(worker.environment).toMatchObject({
+        DD_TRACE_ENABLED: false,
+        DD_CAPTURE_LAMBDA_PAYLOAD: true,
+        DD_FLUSH_TO_LOG: true,
+      });
+      expect(worker.tags).toMatchObject({ service: "batch-worker" });
+    });
+
+    it("gives the service, env, version and tags of the datadog block of a function precedence over the provider environment", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+            environment: {
+              DD_SERVICE: "provider-service",
+              DD_ENV: "provider-env",
+              DD_VERSION: "1.0.0",
+              DD_TAGS: "team:provider",
+            },
+          },
+          functions: {
+            api: {
+              handler: "api.handler",
+              runtime: "nodejs14.x",
+            },
+            worker: {
+              handler: "worker.handler",
+              runtime: "nodejs14.x",
+              datadog: {
+                service: "batch-worker",
+                env: "batch",
+                version: "2.0.0",
+                tags: "team:batch",
+              },
+            },
+          },
+          custom: {
+            datadog: {
+              apiKey: "1234",
+              service: "my-service",
+              env: "prod",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      const { api, worker } = serverless.service.functions as any;
+      expect(api.environment).toMatchObject({ DD_SERVICE: "provider-service", DD_ENV: "provider-env" });
+      expect(worker.environment).toMatchObject({
+        DD_SERVICE: "batch-worker",
+        DD_ENV: "batch",
+        DD_VERSION: "2.0.0",
+        DD_TAGS: "team:batch",
+      });
+    });
+
+    it("skips functions whose datadog block sets enabled to false", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+              datadog: {
+                enabled: false,
+              },
+            },
+          },
+          custom: {
+            datadog: {
+              apiKey: "1234",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      expect(serverless.service.functions.node1).toEqual({
+        handler: "my-func.ev",
+        runtime: "nodejs14.x",
+        datadog: {
+          enabled: false,
+        },
+      });
+    });
+
+    it("throws an error for invalid keys in the datadog block of a function", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+              datadog: {
+                forwarderArn: "arn:aws:lambda:us-east-1:000000000000:function:datadog-forwarder",
+              },
+            },
+          },
+          custom: {
+            datadog: {
+              apiKey: "1234",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await expect(plugin.hooks["after:package:initialize"]()).rejects.toThrow(
+        "Invalid Datadog configuration in `functions.node1.datadog`:\n  - Unknown configuration key `forwarderArn`.",
+      );
+    });
+
+    it("applies the configuration profile of the stage passed in the options", async () => {
+      mock({});
+      const logs: string[] = [];
+      const serverless = {
+        cli: {
+          log: (message: string) => logs.push(message),
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+            stage: "dev",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          custom: {
+            datadog: {
+              apiKey: "1234",
+              stages: {
+                prod: {
+                  captureLambdaPayload: true,
+                  logLevel: "error",
+                },
+              },
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, { stage: "prod" });
+      await plugin.hooks["after:package:initialize"]();
+      expect(logs).toContain("Applying Datadog configuration profile for stage 'prod'");
+      expect(serverless.service.functions.node1).toMatchObject({
+        environment: {
+          DD_CAPTURE_LAMBDA_PAYLOAD: true,
+          DD_LOG_LEVEL: "error",
+        },
+      });
+    });
+
+    it("uses the configuration file extended by custom.datadog", async () => {
+      mock({
+        "/service/datadog.shared.json": JSON.stringify({ apiKey: "1234", site: "datadoghq.eu", logLevel: "info" }),
+      });
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        config: {
+          servicePath: "/service",
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          custom: {
+            datadog: {
+              extends: "./datadog.shared.json",
+              logLevel: "debug",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      expect(serverless.service.functions.node1).toMatchObject({
+        environment: {
+          DD_API_KEY: "1234",
+          DD_SITE: "datadoghq.eu",
+          DD_LOG_LEVEL: "debug",
+        },
+      });
+    });
+
+    it("adds the permissions needed to retrieve the api key secret to the execution role", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          custom: {
+            datadog: {
+              apiKeySecretArn: "arn:aws:secretsmanager:us-east-1:123456789012:secret:dd-api-key",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      expect(serverless.service.provider).toMatchObject({
+        iam: {
+          role: {
+            statements: [
+              {
+                Effect: "Allow",
+                Action: ["secretsmanager:GetSecretValue"],
+                Resource: "arn:aws:secretsmanager:us-east-1:123456789012:secret:dd-api-key",
+              },
+            ],
+          },
+        },
+      });
+    });
+
+    it("doesn't add api key permissions when addApiKeyPermissions is false", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          custom: {
+            datadog: {
+              apiKMSKey: "5678",
+              addApiKeyPermissions: false,
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      expect(serverless.service.provider).not.toHaveProperty("iam");
+    });
+
+    it("warns when the api key is set in plaintext in the environment of the functions", async () => {
+      mock({});
+      const logs: string[] = [];
+      const serverless = {
+        cli: {
+          log: (message: string) => logs.push(message),
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          custom: {
+            datadog: {
+              apiKey: "0123456789abcdef0123456789abcdef",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      expect(logs).toContain(
+        "Warning: The Datadog API key is set in plaintext in the DD_API_KEY environment variable of node1, where it can be read from the CloudFormation template. Use `apiKeySecretArn`, `apiKeySSMArn`, `apiKMSKey` or `apiKeyStorage: managedSecret` instead.",
+      );
+      expect(logs.join("\n")).not.toContain("0123456789abcdef0123456789abcdef");
+    });
+
+    it("throws an error when the api key is set in plaintext and failOnError is set", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          custom: {
+            datadog: {
+              apiKey: "1234",
+              failOnError: true,
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await expect(plugin.hooks["after:package:initialize"]()).rejects.toThrow(
+        "The Datadog API key is set in plaintext in the DD_API_KEY environment variable of node1",
+      );
+    });
+
+    it("adds the layers with the pinned versions", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          custom: {
+            datadog: {
+              apiKeySecretArn: "arn:aws:secretsmanager:us-east-1:123456789012:secret:dd-api-key",
+              nodeLayerVersion: 1000,
+              extensionLayerVersion: 1000,
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      expect(serverless.service.functions.node1).toMatchObject({
+        layers: [
+          expect.stringMatching(/arn\:aws\:lambda\:us\-east\-1\:.*\:layer\:Datadog-Node14-x\:1000$/),
+          expect.stringMatching(/arn\:aws\:lambda\:us\-east\-1\:.*\:layer\:Datadog-Extension\:1000$/),
+        ],
+      });
+    });
+
+    it("adds the layers from the private mirror of layerSource", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          custom: {
+            datadog: {
+              apiKeySecretArn: "arn:aws:secretsmanager:us-east-1:123456789012:secret:dd-api-key",
+              layerSource: {
+                accountId: "123456789012",
+                namePrefix: "Mirror-",
+                layers: { extension: "arn:aws:lambda:us-east-1:123456789012:layer:Extension:7" },
+              },
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      expect(serverless.service.functions.node1).toMatchObject({
+        layers: [
+          expect.stringMatching(/^arn\:aws\:lambda\:us\-east\-1\:123456789012\:layer\:Mirror-Datadog-Node14-x\:\d+$/),
+          "arn:aws:lambda:us-east-1:123456789012:layer:Extension:7",
+        ],
+      });
+    });
+
+    it("throws an error listing the functions whose layers are missing from layerSource", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "eu-example-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          custom: {
+            datadog: {
+              apiKeySecretArn: "arn:aws:secretsmanager:us-east-1:123456789012:secret:dd-api-key",
+              layerSource: {
+                layers: { "nodejs14.x": "arn:aws:lambda:eu-example-1:123456789012:layer:Node:3" },
+              },
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await expect(plugin.hooks["after:package:initialize"]()).rejects.toThrow(
+        "Unable to find the Datadog layers of these functions in `layerSource`, add their ARNs to `layerSource.layers`:\n  - node1: extension",
+      );
+    });
+
+    it("references the layers published from the local zips of localLayers", async () => {
+      mock({ "/service/layers/node.zip": "", "/service/layers/extension.zip": "" });
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        config: {
+          servicePath: "/service",
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          layers: undefined,
+          custom: {
+            datadog: {
+              apiKeySecretArn: "arn:aws:secretsmanager:us-east-1:123456789012:secret:dd-api-key",
+              localLayers: { "nodejs14.x": "layers/node.zip", extension: "layers/extension.zip" },
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      expect(serverless.service.functions.node1).toMatchObject({
+        layers: [{ Ref: "DatadogNodejs14XLambdaLayer" }, { Ref: "DatadogExtensionLambdaLayer" }],
+      });
+      expect(serverless.service.layers).toEqual({
+        DatadogNodejs14X: { package: { artifact: "layers/node.zip" }, description: "Datadog nodejs14.x layer" },
+        DatadogExtension: { package: { artifact: "layers/extension.zip" }, description: "Datadog extension layer" },
+      });
+    });
+
+    it("throws an error when the Datadog layers exceed the layer limit of a function", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+              layers: ["layer-1", "layer-2", "layer-3", "layer-4"],
+            },
+            node2: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+              layers: ["layer-1", "layer-2", "layer-3"],
+            },
+          },
+          custom: {
+            datadog: {
+              apiKeySecretArn: "arn:aws:secretsmanager:us-east-1:123456789012:secret:dd-api-key",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await expect(plugin.hooks["after:package:initialize"]()).rejects.toThrow(
+        "These functions have more than the 5 layers allowed by AWS Lambda once the Datadog layers are added, remove some of their layers or set `addLayers` to false and package the Datadog library with them:\n  - node1: 6 layers",
+      );
+    });
+
+    it("throws an error when a handler can't be resolved and failOnMissingHandler is set", async () => {
+      mock({ "/service/my-func.js": "exports.handler = async () => {};" });
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        config: { servicePath: "/service" },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          custom: {
+            datadog: {
+              apiKeySecretArn: "arn:aws:secretsmanager:us-east-1:123456789012:secret:dd-api-key",
+              failOnMissingHandler: true,
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await expect(plugin.hooks["after:package:initialize"]()).rejects.toThrow(
+        "Unable to resolve the handlers of these functions, which the Datadog handler would fail to import at runtime:\n  - node1: my-func.ev (my-func.js doesn't export ev)",
+      );
+    });
+
+    it("doesn't instrument Lambda@Edge functions", async () => {
+      mock({});
+      const logs: string[] = [];
+      const serverless = {
+        cli: {
+          log: (message: string) => logs.push(message),
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            edge: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+              events: [{ cloudFront: { eventType: "viewer-request", origin: "s3://bucket.s3.amazonaws.com/" } }],
+            },
+          },
+          custom: {
+            datadog: {
+              apiKeySecretArn: "arn:aws:secretsmanager:us-east-1:123456789012:secret:dd-api-key",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      expect(serverless.service.functions.edge).toEqual({
+        handler: "my-func.ev",
+        runtime: "nodejs14.x",
+        events: [{ cloudFront: { eventType: "viewer-request", origin: "s3://bucket.s3.amazonaws.com/" } }],
+      });
+      expect(logs).toContain(
+        "Skipping the environment variables, layers and extension of the Lambda@Edge functions edge, which CloudFront doesn't allow. Their logs can only be collected with the Datadog Forwarder.",
+      );
+    });
+
+    it("warns about functions using deprecated runtimes", async () => {
+      mock({});
+      const logs: string[] = [];
+      const serverless = {
+        cli: {
+          log: (message: string) => logs.push(message),
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node12: {
+              handler: "my-func.ev",
+              runtime: "nodejs12.x",
+            },
+            node22: {
+              handler: "my-func.ev",
+              runtime: "nodejs22.x",
+            },
+          },
+          custom: {
+            datadog: {
+              addExtension: false,
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      expect(logs.filter((log) => log.includes("deprecated by AWS Lambda"))).toEqual([
+        "Warning: Function node12 uses the runtime nodejs12.x, which is deprecated by AWS Lambda. Datadog may stop publishing layers for it, please upgrade to a supported runtime.",
+      ]);
+    });
+
     it("Adds tracing when enableXrayTracing is true", async () => {
       mock({});
       const serverless = {
@@ -344,6 +1069,44 @@ describe("ServerlessPlugin", () => {
         },
       });
     });
+
+    it("only enables X-Ray tracing on the functions whose datadog block sets enableXrayTracing", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          } as { [key: string]: any },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            } as { [key: string]: any },
+            node2: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+              datadog: { enableXrayTracing: true },
+            } as { [key: string]: any },
+          },
+          custom: {
+            datadog: {
+              addExtension: false,
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      expect(serverless.service.provider.tracing).toBeUndefined();
+      expect(serverless.service.functions.node1.tracing).toBeUndefined();
+      expect(serverless.service.functions.node2.tracing).toEqual("Active");
+    });
   });
 
   it("Adds tracing layer for dotnet", async () => {
@@ -671,7 +1434,124 @@ describe("ServerlessPlugin", () => {
       expect(thrownErrorMessage).toEqual("`apiKey` and `apiKeySecretArn` should not be set at the same time.");
     });
 
-    it("throws error if both KMS API and API key secret ARN are defined", async () => {
+    it("throws error if both KMS API and API key secret ARN are defined", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        service: {
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          custom: {
+            datadog: {
+              apiKeySecretArn: "1234",
+              apiKMSKey: "5678",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      let threwError: boolean = false;
+      let thrownErrorMessage: string | undefined;
+      try {
+        await plugin.hooks["after:package:initialize"]();
+      } catch (e) {
+        threwError = true;
+        if (e instanceof Error) {
+          thrownErrorMessage = e.message;
+        }
+      }
+      expect(threwError).toBe(true);
+      expect(thrownErrorMessage).toEqual("`apiKMSKey` and `apiKeySecretArn` should not be set at the same time.");
+    });
+
+    it("throws error if both API key secret ARN and API key SSM ARN are defined", async () => {
+      mock({});
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        service: {
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+          },
+          custom: {
+            datadog: {
+              apiKeySecretArn: "1234",
+              apiKeySSMArn: "5678",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      let threwError: boolean = false;
+      let thrownErrorMessage: string | undefined;
+      try {
+        await plugin.hooks["after:package:initialize"]();
+      } catch (e) {
+        threwError = true;
+        if (e instanceof Error) {
+          thrownErrorMessage = e.message;
+        }
+      }
+      expect(threwError).toBe(true);
+      expect(thrownErrorMessage).toEqual("`apiKeySecretArn` and `apiKeySSMArn` should not be set at the same time.");
+    });
+
+    it("throws an error when apiKeyStorage is managedSecret without an api key", async () => {
+      const serverless = {
+        cli: {
+          log: () => {},
+        },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {},
+          custom: {
+            datadog: {
+              apiKeyStorage: "managedSecret",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      let threwError: boolean = false;
+      let thrownErrorMessage: string | undefined;
+      try {
+        await plugin.hooks["after:package:initialize"]();
+      } catch (e) {
+        threwError = true;
+        if (e instanceof Error) {
+          thrownErrorMessage = e.message;
+        }
+      }
+      expect(threwError).toBe(true);
+      expect(thrownErrorMessage).toEqual(
+        "When `apiKeyStorage` is `managedSecret`, the environment variable `DATADOG_API_KEY` or configuration variable `apiKey` must be set.",
+      );
+    });
+
+    it("throws an error when site is set to an invalid site URL", async () => {
       mock({});
       const serverless = {
         cli: {
@@ -689,8 +1569,7 @@ describe("ServerlessPlugin", () => {
           },
           custom: {
             datadog: {
-              apiKeySecretArn: "1234",
-              apiKMSKey: "5678",
+              site: "datadogehq.com",
             },
           },
         },
@@ -708,10 +1587,12 @@ describe("ServerlessPlugin", () => {
         }
       }
       expect(threwError).toBe(true);
-      expect(thrownErrorMessage).toEqual("`apiKMSKey` and `apiKeySecretArn` should not be set at the same time.");
+      expect(thrownErrorMessage).toEqual(
+        "Warning: Invalid site URL. Must be either datadoghq.com, datadoghq.eu, us3.datadoghq.com, us5.datadoghq.com, or ddog-gov.com.",
+      );
     });
 
-    it("throws an error when site is set to an invalid site URL", async () => {
+    it("throws an error listing unknown keys and values of the wrong type", async () => {
       mock({});
       const serverless = {
         cli: {
@@ -729,29 +1610,51 @@ describe("ServerlessPlugin", () => {
           },
           custom: {
             datadog: {
-              site: "datadogehq.com",
+              apiKey: "1234",
+              enableDDTraicng: false,
+              addExtension: "false",
             },
           },
         },
       };
 
       const plugin = new ServerlessPlugin(serverless, {});
-      let threwError: boolean = false;
       let thrownErrorMessage: string | undefined;
       try {
         await plugin.hooks["after:package:initialize"]();
       } catch (e) {
-        threwError = true;
         if (e instanceof Error) {
           thrownErrorMessage = e.message;
         }
       }
-      expect(threwError).toBe(true);
       expect(thrownErrorMessage).toEqual(
-        "Warning: Invalid site URL. Must be either datadoghq.com, datadoghq.eu, us3.datadoghq.com, us5.datadoghq.com, or ddog-gov.com.",
+        "Invalid Datadog configuration in `custom.datadog`:\n" +
+          '  - `addExtension` must be of type boolean, but received string "false".\n' +
+          "  - Unknown configuration key `enableDDTraicng`. Did you mean `enableDDTracing`?",
       );
     });
 
+    it("registers the configuration schema with the Serverless Framework", () => {
+      const defineCustomProperties = jest.fn();
+      const defineFunctionProperties = jest.fn();
+      const serverless = {
+        configSchemaHandler: { defineCustomProperties, defineFunctionProperties },
+        service: {},
+      };
+
+      new ServerlessPlugin(serverless, {});
+      expect(defineCustomProperties).toHaveBeenCalledWith({
+        properties: {
+          datadog: expect.objectContaining({ type: "object", additionalProperties: false }),
+        },
+      });
+      expect(defineFunctionProperties).toHaveBeenCalledWith("aws", {
+        properties: {
+          datadog: expect.objectContaining({ type: "object", additionalProperties: false }),
+        },
+      });
+    });
+
     it("throws error when addExtension is true and both API key and KMS API key are undefined", async () => {
       mock({});
       const serverless = {
@@ -790,7 +1693,7 @@ describe("ServerlessPlugin", () => {
       }
       expect(threwError).toBe(true);
       expect(thrownErrorMessage).toEqual(
-        "When `addExtension` is true, the environment variable `DATADOG_API_KEY` or configuration variable `apiKMSKey` or `apiKeySecretArn` must be set.",
+        "When `addExtension` is true, the environment variable `DATADOG_API_KEY` or configuration variable `apiKMSKey`, `apiKeySecretArn` or `apiKeySSMArn` must be set.",
       );
     });
   });
@@ -965,6 +1868,104 @@ describe("ServerlessPlugin", () => {
     expect(thrownErrorMessage).toEqual("Some Error Occurred");
   });
 
+  it("passes the api key of the managed secret to the stack update as a parameter", async () => {
+    process.env = { DATADOG_API_KEY: "1234" };
+    const serverless = {
+      cli: { log: () => {} },
+      getProvider: awsMock,
+      service: {
+        getServiceName: () => "dev",
+        provider: {
+          region: "us-east-1",
+          stackParameters: [
+            { ParameterKey: "Stage", ParameterValue: "dev" },
+            { ParameterKey: "DatadogApiKey", ParameterValue: "previous" },
+          ],
+        },
+        functions: {},
+        custom: { datadog: { apiKeyStorage: "managedSecret" } },
+      },
+    };
+
+    const plugin = new ServerlessPlugin(serverless, {});
+    await plugin.hooks["before:aws:deploy:deploy:updateStack"]();
+    expect(serverless.service.provider.stackParameters).toEqual([
+      { ParameterKey: "Stage", ParameterValue: "dev" },
+      { ParameterKey: "DatadogApiKey", ParameterValue: "1234" },
+    ]);
+  });
+
+  describe("config", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+      process.env = {};
+    });
+
+    it("prints the resolved configuration as JSON with secrets redacted", async () => {
+      process.env.DATADOG_API_KEY = "abcdefghijklmnopqrstuvwxyz123456";
+      const printed: string[] = [];
+      jest.spyOn(console, "log").mockImplementation((message: string) => printed.push(message));
+      const serverless = {
+        cli: { log: () => {} },
+        service: {
+          provider: {
+            region: "us-east-1",
+            stage: "dev",
+          },
+          functions: {},
+          custom: {
+            datadog: {
+              appKey: "5678",
+              logLevel: "info",
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, { json: true });
+      await plugin.hooks["after:datadog:config:init"]();
+      expect(printed).toHaveLength(1);
+      const output = JSON.parse(printed[0]);
+      expect(output.stage).toEqual("dev");
+      expect(output.configuration.apiKey).toEqual({
+        value: "****3456",
+        source: "environment variable DATADOG_API_KEY",
+      });
+      expect(output.configuration.appKey).toEqual({ value: "****", source: "custom.datadog" });
+      expect(output.configuration.logLevel).toEqual({ value: "info", source: "custom.datadog" });
+      expect(output.configuration.site).toEqual({ value: "datadoghq.com", source: "default" });
+    });
+
+    it("prints every value with its source", async () => {
+      const printed: string[] = [];
+      jest.spyOn(console, "log").mockImplementation((message: string) => printed.push(message));
+      const serverless = {
+        cli: { log: () => {} },
+        service: {
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {},
+          custom: {
+            datadog: {
+              apiKMSKey: "encrypted-api-key-value",
+              stages: { prod: { enableDDTracing: false } },
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, { stage: "prod" });
+      await plugin.hooks["after:datadog:config:init"]();
+      expect(printed).toContain('  apiKMSKey: "****alue" (custom.datadog)');
+      expect(printed).toContain("  enableDDTracing: false (custom.datadog.stages.prod)");
+      expect(printed).toContain("  addLayers: true (default)");
+    });
+  });
+
   describe("afterPackageFunction", () => {
     afterEach(() => {
       mock.restore();
@@ -1197,6 +2198,202 @@ describe("ServerlessPlugin", () => {
       );
     });
 
+    it("adds the managed api key secret to the compiled template", async () => {
+      process.env.DATADOG_API_KEY = "1234";
+      const serverless = {
+        cli: { log: () => {} },
+        getProvider: awsMock,
+        service: {
+          getServiceName: () => "dev",
+          getAllFunctions: () => [],
+          provider: {
+            compiledCloudFormationTemplate: {
+              Resources: {},
+            },
+          },
+          functions: {},
+          custom: {
+            datadog: {
+              apiKeyStorage: "managedSecret",
+              integrationTesting: true,
+              enableSourceCodeIntegration: false,
+            },
+          },
+        },
+      };
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:createDeploymentArtifacts"]();
+      delete process.env.DATADOG_API_KEY;
+      expect(serverless.service.provider.compiledCloudFormationTemplate).toEqual({
+        Parameters: {
+          DatadogApiKey: {
+            Type: "String",
+            NoEcho: true,
+            Description: "Datadog API key stored in the DatadogApiKeySecret secret",
+          },
+        },
+        Resources: {
+          DatadogApiKeySecret: {
+            Type: "AWS::SecretsManager::Secret",
+            Properties: {
+              Description: "Datadog API key used by the functions of dev",
+              SecretString: { Ref: "DatadogApiKey" },
+            },
+          },
+        },
+      });
+    });
+
+    it("throws an error when the template contains a plaintext api key and failOnPlaintextApiKey is set", async () => {
+      const serverless = {
+        cli: { log: () => {} },
+        getProvider: awsMock,
+        service: {
+          getServiceName: () => "dev",
+          getAllFunctions: () => [],
+          provider: {
+            compiledCloudFormationTemplate: {
+              Resources: {
+                Node1LambdaFunction: {
+                  Type: "AWS::Lambda::Function",
+                  Properties: { Environment: { Variables: { DD_API_KEY: "1234" } } },
+                },
+                Node2LambdaFunction: {
+                  Type: "AWS::Lambda::Function",
+                  Properties: { Environment: { Variables: { DD_API_KEY: { Ref: "DatadogApiKey" } } } },
+                },
+                DatadogApiKeySecret: {
+                  Type: "AWS::SecretsManager::Secret",
+                  Properties: { SecretString: "1234" },
+                },
+              },
+            },
+          },
+          functions: {},
+          custom: {
+            datadog: {
+              failOnPlaintextApiKey: true,
+            },
+          },
+        },
+      };
+      const plugin = new ServerlessPlugin(serverless, {});
+      await expect(plugin.hooks["before:package:finalize"]()).rejects.toThrow(
+        "The CloudFormation template contains the Datadog API key in plaintext in the resources Node1LambdaFunction, DatadogApiKeySecret, and `failOnPlaintextApiKey` is set.",
+      );
+    });
+
+    it("redirects handlers with the customHandler of each function", async () => {
+      const serverless = {
+        cli: { log: () => {} },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            },
+            node2: {
+              handler: "my-other-func.ev",
+              runtime: "nodejs14.x",
+              datadog: {
+                customHandler: "my-wrapper.handler",
+              },
+            },
+          },
+          custom: {
+            datadog: {
+              addExtension: false,
+              integrationTesting: true,
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      await plugin.hooks["after:package:createDeploymentArtifacts"]();
+      expect(serverless.service.functions.node1.handler).toEqual(
+        "/opt/nodejs/node_modules/datadog-lambda-js/handler.handler",
+      );
+      expect(serverless.service.functions.node2.handler).toEqual("my-wrapper.handler");
+    });
+
+    it("instruments the functions once when several packaging hooks fire", async () => {
+      const logs: string[] = [];
+      const serverless = {
+        cli: { log: (message: string) => logs.push(message) },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs14.x",
+            } as { [key: string]: any },
+          },
+          custom: {
+            datadog: {
+              addExtension: false,
+              integrationTesting: true,
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      await plugin.hooks["after:package:createDeploymentArtifacts"]();
+      await plugin.hooks["before:package:finalize"]();
+      expect(serverless.service.functions.node1.handler).toEqual(
+        "/opt/nodejs/node_modules/datadog-lambda-js/handler.handler",
+      );
+      expect(serverless.service.functions.node1.environment.DD_LAMBDA_HANDLER).toEqual("my-func.ev");
+      expect(logs.filter((log) => log.includes("Adding Plugin Version"))).toHaveLength(1);
+    });
+
+    it("leaves the handler of runtimes without a library layer in the layer catalog of the region", async () => {
+      const logs: string[] = [];
+      const serverless = {
+        cli: { log: (message: string) => logs.push(message) },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "ap-southeast-3",
+          },
+          functions: {
+            node1: {
+              handler: "my-func.ev",
+              runtime: "nodejs22.x",
+            } as { [key: string]: any },
+          },
+          custom: {
+            datadog: {
+              addExtension: false,
+              integrationTesting: true,
+            },
+          },
+        },
+      };
+
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:package:initialize"]();
+      await plugin.hooks["after:package:createDeploymentArtifacts"]();
+      expect(serverless.service.functions.node1.handler).toEqual("my-func.ev");
+      expect(serverless.service.functions.node1.layers).toBeUndefined();
+      expect(logs).toContain(
+        "Warning: The layer catalog of the plugin has no nodejs22.x library layer in ap-southeast-3, so the handler of function node1 isn't redirected to the Datadog handler. Set the ARN of the layer under `layerSource.layers`, or the path of its zip file under `localLayers`, with the key nodejs22.x.",
+      );
+    });
+
     it("only adds dd_sls_plugin tag when enabledTags is false", async () => {
       const function_ = functionMock({ env: "test" });
       const serverless = {
@@ -1443,6 +2640,71 @@ describe("ServerlessPlugin", () => {
       );
     });
 
+    it("packages the service and writes the instrumented definition with generate", async () => {
+      mock({});
+      const serverless = {
+        cli: { log: () => {} },
+        config: { servicePath: "/service" },
+        getProvider: (_name: string) => awsMock(),
+        pluginManager: {
+          spawn: jest.fn(async () => {
+            serverless.service.functions.node1.handler = "/opt/nodejs/node_modules/datadog-lambda-js/handler.handler";
+          }),
+        },
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: { handler: "my-func.ev", runtime: "nodejs14.x" },
+          },
+          custom: {
+            datadog: {
+              apiKeySecretArn: "arn:aws:secretsmanager:us-east-1:123456789012:secret:dd-api-key",
+            },
+          },
+        },
+      };
+      const plugin = new ServerlessPlugin(serverless, { output: "instrumented.json" });
+      await plugin.hooks["after:datadog:generate:init"]();
+      expect(serverless.pluginManager.spawn).toHaveBeenCalledWith("package");
+      expect(JSON.parse(await promisify(fs.readFile)("/service/instrumented.json", "utf-8"))).toEqual({
+        functions: {
+          node1: { handler: "/opt/nodejs/node_modules/datadog-lambda-js/handler.handler", runtime: "nodejs14.x" },
+        },
+      });
+    });
+
+    it("writes the uninstrumented definition with clean", async () => {
+      mock({});
+      const serverless = {
+        cli: { log: () => {} },
+        config: { servicePath: "/service" },
+        getProvider: (_name: string) => awsMock(),
+        service: {
+          getServiceName: () => "dev",
+          provider: {
+            region: "us-east-1",
+          },
+          functions: {
+            node1: {
+              handler: "/opt/nodejs/node_modules/datadog-lambda-js/handler.handler",
+              environment: { DD_LAMBDA_HANDLER: "my-func.ev" },
+            },
+          },
+          custom: {
+            datadog: {},
+          },
+        },
+      };
+      const plugin = new ServerlessPlugin(serverless, {});
+      await plugin.hooks["after:datadog:clean:init"]();
+      expect(await promisify(fs.readFile)("/service/.serverless/datadog-uninstrumented.yml", "utf-8")).toEqual(
+        "functions:\n  node1:\n    handler: my-func.ev\n",
+      );
+    });
+
     it("Throws an error if the config has old properties", async () => {
       const serverless = {
         cli: { log: () => {} },
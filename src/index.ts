@@ -6,12 +6,21 @@
  * Copyright 2021 Datadog, Inc.
  */
 
+import { resolve } from "path";
 import * as Serverless from "serverless";
 import { FunctionDefinition } from "serverless";
 import Service from "serverless/classes/Service";
 import { Provider } from "serverless/plugins/aws/provider/awsProvider";
 import { SimpleGit } from "simple-git";
 import { version } from "../package.json";
+import { addManagedApiKeySecret, setManagedApiKeyParameter } from "./api-key-secret";
+import { getContainerImageSteps } from "./container-image";
+import {
+  datadogConfigSchema,
+  datadogFunctionConfigSchema,
+  datadogSites,
+  getConfigurationErrors,
+} from "./config-schema";
 import {
   Configuration,
   ddEnvEnvVar,
@@ -20,28 +29,56 @@ import {
   ddVersionEnvVar,
   forceExcludeDepsFromWebpack,
   getConfig,
+  getConfigLayers,
+  getConfigSources,
+  getFunctionsWithPlaintextApiKey,
+  getResourcesWithPlaintextApiKey,
+  getStageProfileNames,
+  groupHandlersByConfig,
   hasWebpackPlugin,
+  loadExtendedConfig,
   setEnvConfiguration,
 } from "./env";
-import { addCloudWatchForwarderSubscriptions, addExecutionLogGroupsAndSubscriptions } from "./forwarder";
+import {
+  addCloudWatchForwarderSubscriptions,
+  addExecutionLogGroupsAndSubscriptions,
+  addLambdaAtEdgeSubscriptions,
+} from "./forwarder";
 import { newSimpleGit } from "./git";
+import { findMissingCustomHandlers, findMissingHandlers, findMissingHandlersInArtifacts } from "./handler-validation";
+import { claimInstrumentationStep, InstrumentationStep } from "./instrumentation-marker";
 import {
   applyExtensionLayer,
   applyDotnetTracingLayer,
   applyJavaTracingLayer,
   applyLambdaLibraryLayers,
+  applyLayerSource,
   findHandlers,
+  findLayerLimitViolations,
+  findMissingLayers,
+  findUnsupportedArchitectures,
   FunctionInfo,
+  getLibraryLayerKey,
+  hasLibraryLayer,
+  isDeprecatedRuntime,
+  isFunctionDefinitionImage,
+  isLambdaAtEdgeFunction,
+  LayerCatalog,
+  MAX_LAYERS_PER_FUNCTION,
+  pinLayerVersions,
   RuntimeType,
 } from "./layer";
 import * as govLayers from "./layers-gov.json";
 import * as layers from "./layers.json";
+import { addLocalLayers } from "./local-layers";
 import { getCloudFormationStackId } from "./monitor-api-requests";
 import { setMonitors } from "./monitors";
-import { addOutputLinks, printOutputs } from "./output";
+import { addOutputLinks, getSecretValues, printConfiguration, printOutputs, redactSecrets } from "./output";
+import { addApiKeyPermissions, getApiKeyPermissionStatements } from "./permissions";
+import { getInstrumentedDefinition, getUninstrumentedDefinition, writeServiceDefinition } from "./service-definition";
 import { SourceCodeIntegration } from "./source-code-integration";
 import { enableTracing, TracingMode } from "./tracing";
-import { redirectHandlers } from "./wrapper";
+import { getCustomHandler, getManualWrapperSnippet, redirectHandlers } from "./wrapper";
 
 // Separate interface since DefinitelyTyped currently doesn't include tags or env
 export interface ExtendedFunctionDefinition extends FunctionDefinition {
@@ -56,10 +93,15 @@ enum TagKeys {
   Plugin = "dd_sls_plugin",
 }
 
+// Relative to the service directory, YAML unless the path ends with another extension
+const defaultInstrumentedDefinitionPath = ".serverless/datadog-instrumented.yml";
+const defaultUninstrumentedDefinitionPath = ".serverless/datadog-uninstrumented.yml";
+
 module.exports = class ServerlessPlugin {
   public hooks = {
-    "after:datadog:clean:init": this.afterPackageFunction.bind(this),
-    "after:datadog:generate:init": this.beforePackageFunction.bind(this),
+    "after:datadog:clean:init": this.writeUninstrumentedDefinition.bind(this),
+    "after:datadog:config:init": this.printConfig.bind(this),
+    "after:datadog:generate:init": this.writeInstrumentedDefinition.bind(this),
     "after:deploy:function:packageFunction": this.afterPackageFunction.bind(this),
     "after:package:createDeploymentArtifacts": this.afterPackageFunction.bind(this),
     "after:package:initialize": this.beforePackageFunction.bind(this),
@@ -67,6 +109,7 @@ module.exports = class ServerlessPlugin {
     "before:offline:start:init": this.beforePackageFunction.bind(this),
     "before:step-functions-offline:start": this.beforePackageFunction.bind(this),
     "after:deploy:deploy": this.afterDeploy.bind(this),
+    "before:aws:deploy:deploy:updateStack": this.beforeUpdateStack.bind(this),
     "before:package:finalize": this.afterPackageFunction.bind(this),
   };
 
@@ -75,72 +118,237 @@ module.exports = class ServerlessPlugin {
       commands: {
         clean: {
           lifecycleEvents: ["init"],
-          usage: "Cleans up wrapper handler functions for DataDog, not necessary in most cases",
+          options: {
+            output: {
+              type: "string",
+              usage: `Path of the file to write, ${defaultUninstrumentedDefinitionPath} by default`,
+            },
+          },
+          usage:
+            "Writes the service definition without the layers, environment variables, handlers, tags and subscriptions added by the plugin",
+        },
+        config: {
+          lifecycleEvents: ["init"],
+          options: {
+            json: {
+              type: "boolean",
+              usage: "Prints the configuration as JSON",
+            },
+          },
+          usage: "Prints the resolved Datadog configuration and where every value comes from, with secrets redacted",
         },
         generate: {
           lifecycleEvents: ["init"],
-          usage: "Generates wrapper handler functions for DataDog, not necessary in most cases",
+          options: {
+            output: {
+              type: "string",
+              usage: `Path of the file to write, ${defaultInstrumentedDefinitionPath} by default`,
+            },
+          },
+          usage: "Packages the service and writes the functions, layers and subscriptions instrumented by the plugin",
         },
       },
       lifecycleEvents: ["clean", "generate"],
       usage: "Automatically instruments your lambdas with DataDog",
     },
   };
-  constructor(private serverless: Serverless, _: Serverless.Options) {}
+  // Secrets of the resolved configuration, redacted from the logs
+  private secrets: string[] = getSecretValues({});
+
+  constructor(private serverless: Serverless, private options: Serverless.Options) {
+    // `configSchemaHandler` is only available from v2 of the Serverless Framework
+    this.serverless.configSchemaHandler?.defineCustomProperties({
+      properties: {
+        datadog: datadogConfigSchema,
+      },
+    });
+    this.serverless.configSchemaHandler?.defineFunctionProperties("aws", {
+      properties: {
+        datadog: datadogFunctionConfigSchema,
+      },
+    });
+  }
 
   private async beforePackageFunction() {
-    const config = getConfig(this.serverless.service);
+    const config = await this.getConfig();
     if (config.enabled === false) return;
-    this.serverless.cli.log("Auto instrumenting functions with Datadog");
+    this.log("Auto instrumenting functions with Datadog");
+    this.logStageProfile();
     configHasOldProperties(config);
     if (config.monitorsApiKey !== undefined || config.monitorsAppKey !== undefined) {
-      this.serverless.cli.log(
+      this.log(
         "Warning: `monitorsApiKey` and `monitorsAppKey` have been deprecated. Please set DATADOG_API_KEY and DATADOG_APP_KEY in your environment instead.",
       );
     }
     validateConfiguration(config);
 
     const defaultRuntime = this.serverless.service.provider.runtime;
-    const handlers = findHandlers(this.serverless.service, config.exclude, defaultRuntime);
+    const handlers = findHandlers(this.serverless.service, config.exclude, defaultRuntime, config.include);
+    handlers.forEach(validateFunctionConfiguration);
+    this.logDeprecatedRuntimes(handlers);
+    const unsupportedArchitectures = findUnsupportedArchitectures(this.serverless.service, handlers);
+    if (unsupportedArchitectures.length > 0) {
+      this.log(
+        `Warning: AWS Lambda doesn't support the runtime of these functions on their architecture, they won't get the Datadog library layer:\n${unsupportedArchitectures
+          .map((unsupported) => `  - ${unsupported}`)
+          .join("\n")}`,
+      );
+    }
+    const edgeHandlers = handlers.filter(({ handler }) => isLambdaAtEdgeFunction(handler));
+    if (edgeHandlers.length > 0) {
+      this.log(
+        `Skipping the environment variables, layers and extension of the Lambda@Edge functions ${edgeHandlers
+          .map(({ name }) => name)
+          .join(", ")}, which CloudFront doesn't allow. Their logs can only be collected with the Datadog Forwarder.`,
+      );
+    }
+
+    const { layers: pinnedLayers, warnings: layerVersionWarnings } = pinLayerVersions(
+      { regions: { ...layers.regions, ...govLayers.regions } },
+      this.serverless.service.provider.region,
+      config,
+    );
+    for (const warning of layerVersionWarnings) {
+      this.log(warning);
+    }
+    const sourcedLayers = await addLocalLayers(
+      this.serverless.service,
+      applyLayerSource(pinnedLayers, this.serverless.service.provider.region, config),
+      this.serverless.service.provider.region,
+      config,
+      this.getServicePath(),
+    );
+
+    const instrumentedHandlers: FunctionInfo[] = [];
+    const missingLayers: string[] = [];
+    const missingCustomHandlers: string[] = [];
+    const regionalHandlers = handlers.filter((handler) => !edgeHandlers.includes(handler));
+    for (const group of groupHandlersByConfig(config, regionalHandlers)) {
+      if (group.config.enabled === false) {
+        continue;
+      }
+      // Function level overrides can change which settings are required, e.g. an api key for `addExtension`
+      if (group.config !== config) {
+        validateConfiguration(group.config);
+      }
+      if (config.layerSource !== undefined) {
+        missingLayers.push(...findMissingLayers(this.serverless.service, group.handlers, sourcedLayers, group.config));
+      }
+      this.instrumentHandlers(group.config, group.handlers, sourcedLayers, config);
+      this.logContainerImageSteps(group.config, group.handlers);
+      this.logManualWrapperSnippets(group.config, group.handlers);
+      missingCustomHandlers.push(
+        ...(await findMissingCustomHandlers(
+          this.serverless.service,
+          group.handlers,
+          group.config.customHandler,
+          this.getServicePath(),
+          group.config.layerSource?.namePrefix,
+        )),
+      );
+      instrumentedHandlers.push(...group.handlers);
+    }
+    if (missingLayers.length > 0) {
+      throw new Error(
+        `Unable to find the Datadog layers of these functions in \`layerSource\`, add their ARNs to \`layerSource.layers\`:\n${missingLayers
+          .map((missingLayer) => `  - ${missingLayer}`)
+          .join("\n")}`,
+      );
+    }
+    const layerLimitViolations = findLayerLimitViolations(this.serverless.service, instrumentedHandlers);
+    if (layerLimitViolations.length > 0) {
+      throw new Error(
+        `These functions have more than the ${MAX_LAYERS_PER_FUNCTION} layers allowed by AWS Lambda once the Datadog layers are added, remove some of their layers or set \`addLayers\` to false and package the Datadog library with them:\n${layerLimitViolations
+          .map((violation) => `  - ${violation}`)
+          .join("\n")}`,
+      );
+    }
+
+    this.reportMissingHandlers(
+      config,
+      await findMissingHandlers(
+        instrumentedHandlers.filter(({ handler }) => !isFunctionDefinitionImage(handler)),
+        this.getServicePath(),
+      ),
+    );
+    this.reportMissingHandlers(
+      config,
+      missingCustomHandlers,
+      "Unable to resolve the custom handlers of these functions, which AWS Lambda would fail to load at runtime",
+    );
 
+    const plaintextApiKeyFunctions = getFunctionsWithPlaintextApiKey(this.serverless.service, instrumentedHandlers);
+    if (plaintextApiKeyFunctions.length > 0) {
+      const message = `The Datadog API key is set in plaintext in the DD_API_KEY environment variable of ${plaintextApiKeyFunctions.join(
+        ", ",
+      )}, where it can be read from the CloudFormation template. Use \`apiKeySecretArn\`, \`apiKeySSMArn\`, \`apiKMSKey\` or \`apiKeyStorage: managedSecret\` instead.`;
+      if (config.failOnError) {
+        throw new Error(message);
+      }
+      this.log(`Warning: ${message}`);
+    }
+
+    if (config.addApiKeyPermissions !== false) {
+      const statements = getApiKeyPermissionStatements(config);
+      for (const warning of addApiKeyPermissions(this.serverless.service, instrumentedHandlers, statements)) {
+        this.log(warning);
+      }
+    }
+  }
+
+  /**
+   * Adds the layers, environment variables, tags and tracing configuration to the given handlers.
+   * @param serviceConfig - the configuration of the service, which `config` may override for these handlers
+   */
+  private instrumentHandlers(
+    config: Configuration,
+    handlers: FunctionInfo[],
+    allLayers: LayerCatalog,
+    serviceConfig: Configuration,
+  ) {
     setEnvConfiguration(config, handlers);
+    const namePrefix = config.layerSource?.namePrefix;
 
-    const allLayers = { regions: { ...layers.regions, ...govLayers.regions } };
     if (config.addLayers) {
-      this.serverless.cli.log("Adding Lambda Library Layers to functions");
+      this.log("Adding Lambda Library Layers to functions");
       this.debugLogHandlers(handlers);
-      applyLambdaLibraryLayers(this.serverless.service, handlers, allLayers);
+      this.logLayerReplacements(applyLambdaLibraryLayers(this.serverless.service, handlers, allLayers, namePrefix));
+      this.logHandlersWithoutLibraryLayer(config, handlers);
       if (hasWebpackPlugin(this.serverless.service)) {
         forceExcludeDepsFromWebpack(this.serverless.service);
       }
     } else {
-      this.serverless.cli.log("Skipping adding Lambda Library Layers, make sure you are packaging them yourself");
+      this.log("Skipping adding Lambda Library Layers, make sure you are packaging them yourself");
     }
 
     if (config.addExtension) {
-      this.serverless.cli.log("Adding Datadog Lambda Extension Layer to functions");
+      this.log("Adding Datadog Lambda Extension Layer to functions");
       this.debugLogHandlers(handlers);
-      applyExtensionLayer(this.serverless.service, handlers, allLayers);
+      this.logLayerReplacements(applyExtensionLayer(this.serverless.service, handlers, allLayers, namePrefix));
       handlers.forEach((functionInfo) => {
         if (functionInfo.type === RuntimeType.DOTNET) {
-          this.serverless.cli.log("Adding .NET Tracing Layer to functions");
+          this.log("Adding .NET Tracing Layer to functions");
           this.debugLogHandlers(handlers);
-          applyDotnetTracingLayer(this.serverless.service, functionInfo, allLayers);
+          this.logLayerReplacements(
+            applyDotnetTracingLayer(this.serverless.service, functionInfo, allLayers, namePrefix),
+          );
         } else if (functionInfo.type === RuntimeType.JAVA) {
-          this.serverless.cli.log("Adding Java Tracing Layer to functions");
+          this.log("Adding Java Tracing Layer to functions");
           this.debugLogHandlers(handlers);
-          applyJavaTracingLayer(this.serverless.service, functionInfo, allLayers);
+          this.logLayerReplacements(
+            applyJavaTracingLayer(this.serverless.service, functionInfo, allLayers, namePrefix),
+          );
         }
       });
     } else {
-      this.serverless.cli.log("Skipping adding Lambda Extension Layer");
+      this.log("Skipping adding Lambda Extension Layer");
     }
 
     if (config.addExtension) {
-      this.serverless.cli.log("Adding Datadog Env Vars");
-      this.addDDEnvVars(handlers);
+      this.log("Adding Datadog Env Vars");
+      this.addDDEnvVars(handlers, config, serviceConfig);
     } else {
-      this.addDDTags(handlers);
+      this.addDDTags(handlers, config);
     }
 
     let tracingMode = TracingMode.NONE;
@@ -151,13 +359,29 @@ module.exports = class ServerlessPlugin {
     } else if (config.enableXrayTracing) {
       tracingMode = TracingMode.XRAY;
     }
-    enableTracing(this.serverless.service, tracingMode, handlers);
+    enableTracing(
+      this.serverless.service,
+      tracingMode,
+      handlers,
+      config.enableXrayTracing !== serviceConfig.enableXrayTracing,
+    );
   }
 
   private async afterPackageFunction() {
-    const config = getConfig(this.serverless.service);
+    const config = await this.getConfig();
     if (config.enabled === false) return;
 
+    if (config.failOnPlaintextApiKey) {
+      const plaintextApiKeyResources = getResourcesWithPlaintextApiKey(this.serverless.service);
+      if (plaintextApiKeyResources.length > 0) {
+        throw new Error(
+          `The CloudFormation template contains the Datadog API key in plaintext in the resources ${plaintextApiKeyResources.join(
+            ", ",
+          )}, and \`failOnPlaintextApiKey\` is set.`,
+        );
+      }
+    }
+
     // Create an object that contains some of our booleans for the forwarder
     const forwarderConfigs = {
       AddExtension: config.addExtension,
@@ -167,7 +391,13 @@ module.exports = class ServerlessPlugin {
     };
 
     const defaultRuntime = this.serverless.service.provider.runtime;
-    const handlers = findHandlers(this.serverless.service, config.exclude, defaultRuntime);
+    const groups = groupHandlersByConfig(
+      config,
+      findHandlers(this.serverless.service, config.exclude, defaultRuntime, config.include),
+    ).filter((group) => group.config.enabled !== false);
+    const handlers = groups.reduce((allHandlers: FunctionInfo[], group) => [...allHandlers, ...group.handlers], []);
+    // Environment variables can't be set on Lambda@Edge functions, which rules out the handler redirection
+    const regionalHandlers = handlers.filter(({ handler }) => !isLambdaAtEdgeFunction(handler));
 
     let datadogForwarderArn;
     datadogForwarderArn = this.setDatadogForwarder(config);
@@ -184,50 +414,96 @@ module.exports = class ServerlessPlugin {
         await addExecutionLogGroupsAndSubscriptions(this.serverless.service, aws, datadogForwarderArn);
       }
       for (const error of errors) {
-        this.serverless.cli.log(error);
+        this.log(error);
+      }
+      const edgeSubscriptionMessages = await addLambdaAtEdgeSubscriptions(
+        this.serverless.service,
+        aws,
+        datadogForwarderArn,
+        handlers.filter(({ handler }) => isLambdaAtEdgeFunction(handler)),
+      );
+      for (const message of edgeSubscriptionMessages) {
+        this.log(message);
       }
     }
 
     if (datadogForwarderArn && config.addExtension) {
-      this.serverless.cli.log(
+      this.log(
         "Warning: Datadog Lambda Extension and forwarder are both enabled. Only APIGateway log groups will be subscribed to the forwarder.",
       );
     }
 
-    this.addTags(handlers, config.addExtension !== true);
+    for (const group of groups) {
+      this.addTags(
+        claimInstrumentationStep(group.handlers, InstrumentationStep.Tags),
+        group.config.addExtension !== true,
+      );
+    }
+
+    if (config.apiKeyStorage === "managedSecret") {
+      addManagedApiKeySecret(this.serverless.service);
+    }
 
     const simpleGit = await newSimpleGit();
 
     if ((process.env.DATADOG_API_KEY ?? config.apiKey) === undefined) {
-      this.serverless.cli.log(
+      this.log(
         "Skipping installing GitHub integration because Datadog credentials were not found. Please set either DATADOG_API_KEY in your environment, or set the apiKey parameter in Serverless.",
       );
     } else {
-      if (config.enableSourceCodeIntegration && simpleGit !== undefined && (await simpleGit.checkIsRepo())) {
+      const sourceCodeIntegrationHandlers = config.enableSourceCodeIntegration
+        ? claimInstrumentationStep(regionalHandlers, InstrumentationStep.SourceCodeIntegration)
+        : [];
+      if (sourceCodeIntegrationHandlers.length > 0 && simpleGit !== undefined && (await simpleGit.checkIsRepo())) {
         try {
           await this.addSourceCodeIntegration(
-            handlers,
+            sourceCodeIntegrationHandlers,
             simpleGit,
             (process.env.DATADOG_API_KEY ?? config.apiKey)!,
             config.site,
           );
         } catch (err) {
-          this.serverless.cli.log(`Error occurred when adding source code integration: ${err}`);
+          this.log(`Error occurred when adding source code integration: ${err}`);
           return;
         }
       }
     }
 
-    redirectHandlers(handlers, config.addLayers, config.customHandler);
+    const redirectedHandlers = claimInstrumentationStep(regionalHandlers, InstrumentationStep.Redirection);
+    this.reportMissingHandlers(
+      config,
+      await findMissingHandlersInArtifacts(this.serverless.service, redirectedHandlers, this.getServicePath()),
+    );
+    for (const group of groups) {
+      redirectHandlers(
+        group.handlers.filter((handler) => redirectedHandlers.includes(handler)),
+        group.config.addLayers,
+        group.config.customHandler,
+      );
+    }
     if (config.integrationTesting === false) {
       await addOutputLinks(this.serverless, config.site, handlers);
     } else {
-      this.serverless.cli.log("Skipped adding output links because 'integrationTesting' is set true");
+      this.log("Skipped adding output links because 'integrationTesting' is set true");
     }
   }
 
+  private async beforeUpdateStack() {
+    const config = await this.getConfig();
+    if (config.enabled === false || config.apiKeyStorage !== "managedSecret") {
+      return;
+    }
+    const apiKey = config.apiKey ?? process.env.DATADOG_API_KEY;
+    if (apiKey === undefined) {
+      throw new Error(
+        "When `apiKeyStorage` is `managedSecret`, the environment variable `DATADOG_API_KEY` or configuration variable `apiKey` must be set.",
+      );
+    }
+    setManagedApiKeyParameter(this.serverless.service, apiKey);
+  }
+
   private async afterDeploy() {
-    const config = getConfig(this.serverless.service);
+    const config = await this.getConfig();
     const service = this.serverless.service.getServiceName();
     const env = this.serverless.getProvider("aws").getStage();
 
@@ -249,11 +525,11 @@ module.exports = class ServerlessPlugin {
           env,
         );
         for (const logStatement of logStatements) {
-          this.serverless.cli.log(logStatement);
+          this.log(logStatement);
         }
       } catch (err) {
         if (err instanceof Error) {
-          this.serverless.cli.log(`Error occurred when configuring monitors: ${err.message}`);
+          this.log(`Error occurred when configuring monitors: ${err.message}`);
           if (config.failOnError) {
             throw err;
           }
@@ -263,32 +539,211 @@ module.exports = class ServerlessPlugin {
     return printOutputs(this.serverless, config.site);
   }
 
+  /**
+   * Resolves the configuration for the stage being deployed, using the same precedence as the AWS provider:
+   * the `--stage` option, then `provider.stage`.
+   */
+  private async getConfig() {
+    const config = getConfig(this.serverless.service, this.getStage(), await this.loadExtendedConfig());
+    this.secrets = getSecretValues(config);
+    return config;
+  }
+
+  /**
+   * Logs a message with the Serverless CLI, redacting the secrets of the configuration.
+   */
+  private log(message: string) {
+    this.serverless.cli.log(redactSecrets(message, this.secrets));
+  }
+
+  /**
+   * Logs the functions whose handler can't be resolved, or fails with `failOnMissingHandler`.
+   */
+  private reportMissingHandlers(
+    config: Configuration,
+    missingHandlers: string[],
+    description = "Unable to resolve the handlers of these functions, which the Datadog handler would fail to import at runtime",
+  ) {
+    if (missingHandlers.length === 0) {
+      return;
+    }
+    const message = `${description}:\n${missingHandlers.map((missingHandler) => `  - ${missingHandler}`).join("\n")}`;
+    if (config.failOnMissingHandler) {
+      throw new Error(message);
+    }
+    this.log(`Warning: ${message}`);
+  }
+
+  private loadExtendedConfig() {
+    return loadExtendedConfig(this.serverless.service, this.getServicePath());
+  }
+
+  private getServicePath() {
+    return this.serverless.config?.servicePath ?? process.cwd();
+  }
+
+  /**
+   * Packages the service, which runs the instrumentation, and writes the instrumented parts of the service.
+   */
+  private async writeInstrumentedDefinition() {
+    // Fail on an invalid configuration before packaging the service
+    const config = await this.getConfig();
+    configHasOldProperties(config);
+    validateConfiguration(config);
+    await this.serverless.pluginManager.spawn("package");
+    const outputPath = this.getOutputPath(defaultInstrumentedDefinitionPath);
+    await writeServiceDefinition(getInstrumentedDefinition(this.serverless.service, config), outputPath);
+    this.log(`Wrote the instrumented service definition to ${outputPath}`);
+  }
+
+  /**
+   * Writes the service definition without what the plugin adds, e.g. to remove the plugin from the service.
+   */
+  private async writeUninstrumentedDefinition() {
+    const config = await this.getConfig();
+    const outputPath = this.getOutputPath(defaultUninstrumentedDefinitionPath);
+    await writeServiceDefinition(
+      getUninstrumentedDefinition(
+        this.serverless.service,
+        config.forwarderArn ?? config.forwarder,
+        config.layerSource?.namePrefix,
+      ),
+      outputPath,
+    );
+    this.log(`Wrote the uninstrumented service definition to ${outputPath}`);
+  }
+
+  private getOutputPath(defaultPath: string) {
+    return resolve(this.getServicePath(), (this.options as any).output ?? defaultPath);
+  }
+
+  private async printConfig() {
+    const stage = this.getStage();
+    const configLayers = getConfigLayers(this.serverless.service, stage, await this.loadExtendedConfig());
+    printConfiguration(getConfigSources(configLayers), stage, (this.options as any).json === true);
+  }
+
+  private getStage(): string | undefined {
+    return this.options.stage ?? this.serverless.service.provider.stage;
+  }
+
+  private logStageProfile() {
+    const profileNames = getStageProfileNames(this.serverless.service);
+    if (profileNames.length === 0) {
+      return;
+    }
+    const stage = this.getStage();
+    if (stage !== undefined && profileNames.includes(stage)) {
+      this.log(`Applying Datadog configuration profile for stage '${stage}'`);
+    } else {
+      this.log(
+        `No Datadog configuration profile for stage '${stage}' (profiles: ${profileNames.join(
+          ", ",
+        )}), using the base configuration`,
+      );
+    }
+  }
+
+  private logDeprecatedRuntimes(handlers: FunctionInfo[]) {
+    for (const { name, runtime } of handlers) {
+      if (isDeprecatedRuntime(runtime)) {
+        this.log(
+          `Warning: Function ${name} uses the runtime ${runtime}, which is deprecated by AWS Lambda. Datadog may stop publishing layers for it, please upgrade to a supported runtime.`,
+        );
+      }
+    }
+  }
+
+  private logHandlersWithoutLibraryLayer(config: Configuration, handlers: FunctionInfo[]) {
+    const { region } = this.serverless.service.provider;
+    for (const handler of handlers) {
+      // Runtimes unsupported on the architecture of the function are reported by `findUnsupportedArchitectures`
+      const layerKey = getLibraryLayerKey(this.serverless.service, handler);
+      if (
+        (handler.type !== RuntimeType.NODE && handler.type !== RuntimeType.PYTHON) ||
+        isFunctionDefinitionImage(handler.handler) ||
+        hasLibraryLayer(handler) ||
+        layerKey === undefined ||
+        getCustomHandler(handler, config.customHandler) !== undefined
+      ) {
+        continue;
+      }
+      this.log(
+        `Warning: The layer catalog of the plugin has no ${layerKey} library layer in ${region}, so the handler of function ${handler.name} isn't redirected to the Datadog handler. Set the ARN of the layer under \`layerSource.layers\`, or the path of its zip file under \`localLayers\`, with the key ${layerKey}.`,
+      );
+    }
+  }
+
+  private logContainerImageSteps(config: Configuration, handlers: FunctionInfo[]) {
+    for (const handler of handlers) {
+      if (!isFunctionDefinitionImage(handler.handler)) {
+        continue;
+      }
+      if (handler.runtime === undefined) {
+        this.log(
+          `Function ${handler.name} uses a container image without a \`runtime\`, set it to the runtime of the image to redirect its handler to the Datadog handler and list the Dockerfile steps installing the Datadog library.`,
+        );
+      }
+      const steps = getContainerImageSteps(handler, config);
+      if (steps.length === 0) {
+        continue;
+      }
+      const dockerfileSteps = steps.map((step) => `  ${step}`).join("\n");
+      this.log(
+        `Function ${handler.name} uses a container image, which can't use the Datadog layers. Add these steps to its Dockerfile:\n${dockerfileSteps}`,
+      );
+    }
+  }
+
+  private logManualWrapperSnippets(config: Configuration, handlers: FunctionInfo[]) {
+    for (const handler of handlers) {
+      const snippet = getManualWrapperSnippet(handler, config.customHandler);
+      if (snippet === undefined) {
+        continue;
+      }
+      const indentedSnippet = snippet
+        .split("\n")
+        .map((line) => (line.length > 0 ? `  ${line}` : line))
+        .join("\n");
+      this.log(
+        `Function ${handler.name} uses the ${handler.runtime} runtime, whose handler can't be redirected to a Datadog handler. Wrap its handler with the Datadog library to collect enhanced metrics and connect traces:\n${indentedSnippet}`,
+      );
+    }
+  }
+
+  private logLayerReplacements(replacements: string[]) {
+    for (const replacement of replacements) {
+      this.log(replacement);
+    }
+  }
+
   private debugLogHandlers(handlers: FunctionInfo[]) {
     for (const handler of handlers) {
       if (handler.type === RuntimeType.UNSUPPORTED) {
         if (handler.runtime === undefined) {
-          this.serverless.cli.log(`Unable to determine runtime for function ${handler.name}`);
+          this.log(`Unable to determine runtime for function ${handler.name}`);
         } else {
-          this.serverless.cli.log(
-            `Unable to add Lambda Layers to function ${handler.name} with runtime ${handler.runtime}`,
-          );
+          this.log(`Unable to add Lambda Layers to function ${handler.name} with runtime ${handler.runtime}`);
         }
       }
     }
   }
 
   /**
-   * Check for service, env, version, and additional tags at the custom level.
-   * If these don't already exsist on the function level as env vars, adds them as DD_XXX env vars
+   * Check for service, env, version, and additional tags at the custom or function level.
+   * If these don't already exsist on the function level as env vars, adds them as DD_XXX env vars.
+   * The ones set in the `datadog` block of a function take precedence over the provider level env vars.
+   * @param serviceConfig - the configuration of the service, which `config` may override for these handlers
    */
-  private addDDEnvVars(handlers: FunctionInfo[]) {
+  private addDDEnvVars(handlers: FunctionInfo[], config: Configuration, serviceConfig: Configuration) {
     const provider = this.serverless.service.provider as Provider;
     const service = this.serverless.service as Service;
-
-    let custom = service.custom as any;
-    if (custom === undefined) {
-      custom = {};
-    }
+    const settings: [keyof Configuration, string][] = [
+      ["service", ddServiceEnvVar],
+      ["env", ddEnvEnvVar],
+      ["version", ddVersionEnvVar],
+      ["tags", ddTagsEnvVar],
+    ];
 
     handlers.forEach(({ handler }) => {
       handler.environment ??= {};
@@ -296,20 +751,13 @@ module.exports = class ServerlessPlugin {
       provider.environment ??= {};
       const providerEnvironment = provider.environment as any;
 
-      if (custom?.datadog?.service) {
-        environment[ddServiceEnvVar] ??= providerEnvironment[ddServiceEnvVar] ?? custom.datadog.service;
-      }
-
-      if (custom?.datadog?.env) {
-        environment[ddEnvEnvVar] ??= providerEnvironment[ddEnvEnvVar] ?? custom.datadog.env;
-      }
-
-      if (custom?.datadog?.version) {
-        environment[ddVersionEnvVar] ??= providerEnvironment[ddVersionEnvVar] ?? custom.datadog.version;
-      }
-
-      if (custom?.datadog?.tags) {
-        environment[ddTagsEnvVar] ??= providerEnvironment[ddTagsEnvVar] ?? custom.datadog.tags;
+      for (const [key, envVar] of settings) {
+        const value = config[key];
+        if (!value) {
+          continue;
+        }
+        const isFunctionOverride = value !== serviceConfig[key];
+        environment[envVar] ??= isFunctionOverride ? value : providerEnvironment[envVar] ?? value;
       }
 
       // default to service and stage if env vars aren't set
@@ -319,35 +767,28 @@ module.exports = class ServerlessPlugin {
   }
 
   /**
-   * Check for service, env, version, and additional tags at the custom level.
+   * Check for service, env, version, and additional tags at the custom or function level.
    * If these tags don't already exsist on the function level, adds them as tags
    */
-  private addDDTags(handlers: FunctionInfo[]) {
-    const service = this.serverless.service as Service;
-
-    let custom = service.custom as any;
-    if (custom === undefined) {
-      custom = {};
-    }
-
+  private addDDTags(handlers: FunctionInfo[], config: Configuration) {
     handlers.forEach(({ handler }) => {
       handler.tags ??= {};
       const tags = handler.tags as any;
 
-      if (custom?.datadog?.service) {
-        tags[TagKeys.Service] ??= custom.datadog.service;
+      if (config.service) {
+        tags[TagKeys.Service] ??= config.service;
       }
 
-      if (custom?.datadog?.env) {
-        tags[TagKeys.Env] ??= custom.datadog.env;
+      if (config.env) {
+        tags[TagKeys.Env] ??= config.env;
       }
 
-      if (custom?.datadog?.version) {
-        tags[TagKeys.Version] ??= custom.datadog.version;
+      if (config.version) {
+        tags[TagKeys.Version] ??= config.version;
       }
 
-      if (custom?.datadog?.tags) {
-        const tagsArray = custom.datadog.tags.split(",");
+      if (config.tags) {
+        const tagsArray = config.tags.split(",");
         tagsArray.forEach((tag: string) => {
           const [key, value] = tag.split(":");
           if (key && value) {
@@ -364,11 +805,16 @@ module.exports = class ServerlessPlugin {
    * properties from deployment configurations if needed; does not override any existing values.
    */
   private addTags(handlers: FunctionInfo[], shouldAddTags: boolean) {
+    // Functions already tagged with this version of the plugin were instrumented by a previous run
+    handlers = handlers.filter(({ handler }) => handler.tags?.[TagKeys.Plugin] !== `v${version}`);
+    if (handlers.length === 0) {
+      return;
+    }
     const provider = this.serverless.service.provider as Provider;
-    this.serverless.cli.log(`Adding Plugin Version ${version} tag`);
+    this.log(`Adding Plugin Version ${version} tag`);
 
     if (shouldAddTags) {
-      this.serverless.cli.log(`Adding service and environment tags`);
+      this.log(`Adding service and environment tags`);
     }
 
     handlers.forEach(({ handler }) => {
@@ -401,7 +847,7 @@ module.exports = class ServerlessPlugin {
     const sourceCodeIntegration = new SourceCodeIntegration(apiKey, datadogSite, simpleGit);
     const gitCommitHash = await sourceCodeIntegration.uploadGitMetadata();
 
-    this.serverless.cli.log(`Adding GitHub integration with git commit hash ${gitCommitHash}`);
+    this.log(`Adding GitHub integration with git commit hash ${gitCommitHash}`);
 
     handlers.forEach(({ handler }) => {
       handler.environment ??= {};
@@ -417,10 +863,10 @@ module.exports = class ServerlessPlugin {
         "Both 'forwarderArn' and 'forwarder' parameters are set. Please only use the 'forwarderArn' parameter.",
       );
     } else if (forwarderArn !== undefined && forwarder === undefined) {
-      this.serverless.cli.log("Setting Datadog Forwarder");
+      this.log("Setting Datadog Forwarder");
       return forwarderArn;
     } else if (forwarder !== undefined && forwarderArn === undefined) {
-      this.serverless.cli.log("Setting Datadog Forwarder");
+      this.log("Setting Datadog Forwarder");
       return forwarder;
     }
   }
@@ -452,27 +898,41 @@ function configHasOldProperties(obj: any) {
 function validateConfiguration(config: Configuration) {
   checkForMultipleApiKeys(config);
 
-  const siteList: string[] = [
-    "datadoghq.com",
-    "datadoghq.eu",
-    "us3.datadoghq.com",
-    "us5.datadoghq.com",
-    "ddog-gov.com",
-  ];
-  if (config.site !== undefined && !siteList.includes(config.site.toLowerCase())) {
+  if (typeof config.site === "string" && !datadogSites.includes(config.site.toLowerCase())) {
     throw new Error(
       "Warning: Invalid site URL. Must be either datadoghq.com, datadoghq.eu, us3.datadoghq.com, us5.datadoghq.com, or ddog-gov.com.",
     );
   }
+  const configurationErrors = getConfigurationErrors(config);
+  if (configurationErrors.length > 0) {
+    throw new Error(
+      `Invalid Datadog configuration in \`custom.datadog\`:\n${configurationErrors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`,
+    );
+  }
+  if (config.apiKeyStorage === "managedSecret") {
+    if (config.apiKMSKey !== undefined || config.apiKeySecretArn !== undefined || config.apiKeySSMArn !== undefined) {
+      throw new Error(
+        "`apiKeyStorage: managedSecret` should not be set with `apiKMSKey`, `apiKeySecretArn` or `apiKeySSMArn`.",
+      );
+    }
+    if (config.apiKey === undefined && process.env.DATADOG_API_KEY === undefined) {
+      throw new Error(
+        "When `apiKeyStorage` is `managedSecret`, the environment variable `DATADOG_API_KEY` or configuration variable `apiKey` must be set.",
+      );
+    }
+  }
   if (config.addExtension) {
     if (
       config.apiKey === undefined &&
       process.env.DATADOG_API_KEY === undefined &&
       config.apiKMSKey === undefined &&
-      config.apiKeySecretArn === undefined
+      config.apiKeySecretArn === undefined &&
+      config.apiKeySSMArn === undefined
     ) {
       throw new Error(
-        "When `addExtension` is true, the environment variable `DATADOG_API_KEY` or configuration variable `apiKMSKey` or `apiKeySecretArn` must be set.",
+        "When `addExtension` is true, the environment variable `DATADOG_API_KEY` or configuration variable `apiKMSKey`, `apiKeySecretArn` or `apiKeySSMArn` must be set.",
       );
     }
   }
@@ -489,19 +949,32 @@ function validateConfiguration(config: Configuration) {
   }
 }
 
-function checkForMultipleApiKeys(config: Configuration) {
-  let multipleApiKeysMessage;
-  if (config.apiKey !== undefined && config.apiKMSKey !== undefined && config.apiKeySecretArn !== undefined) {
-    multipleApiKeysMessage = "`apiKey`, `apiKMSKey`, and `apiKeySecretArn`";
-  } else if (config.apiKey !== undefined && config.apiKMSKey !== undefined) {
-    multipleApiKeysMessage = "`apiKey` and `apiKMSKey`";
-  } else if (config.apiKey !== undefined && config.apiKeySecretArn !== undefined) {
-    multipleApiKeysMessage = "`apiKey` and `apiKeySecretArn`";
-  } else if (config.apiKMSKey !== undefined && config.apiKeySecretArn !== undefined) {
-    multipleApiKeysMessage = "`apiKMSKey` and `apiKeySecretArn`";
+function validateFunctionConfiguration({ name, handler }: FunctionInfo) {
+  if (handler.datadog === undefined) {
+    return;
+  }
+  const configurationErrors = getConfigurationErrors(handler.datadog, datadogFunctionConfigSchema);
+  if (configurationErrors.length > 0) {
+    throw new Error(
+      `Invalid Datadog configuration in \`functions.${name}.datadog\`:\n${configurationErrors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`,
+    );
   }
+}
 
-  if (multipleApiKeysMessage) {
-    throw new Error(`${multipleApiKeysMessage} should not be set at the same time.`);
+function checkForMultipleApiKeys(config: Configuration) {
+  const apiKeyOptions = (["apiKey", "apiKMSKey", "apiKeySecretArn", "apiKeySSMArn"] as const)
+    .filter((option) => config[option] !== undefined)
+    .map((option) => `\`${option}\``);
+  if (apiKeyOptions.length < 2) {
+    return;
   }
+
+  const lastOption = apiKeyOptions.pop();
+  const multipleApiKeysMessage =
+    apiKeyOptions.length === 1
+      ? `${apiKeyOptions[0]} and ${lastOption}`
+      : `${apiKeyOptions.join(", ")}, and ${lastOption}`;
+  throw new Error(`${multipleApiKeysMessage} should not be set at the same time.`);
 }
@@ -0,0 +1,29 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import { claimInstrumentationStep, InstrumentationStep } from "./instrumentation-marker";
+import { RuntimeType } from "./layer";
+
+describe("claimInstrumentationStep", () => {
+  it("returns each function once per step", () => {
+    const first = { name: "first", type: RuntimeType.NODE, handler: { handler: "first.handler", events: [] } };
+    const second = { name: "second", type: RuntimeType.NODE, handler: { handler: "second.handler", events: [] } };
+
+    expect(claimInstrumentationStep([first], InstrumentationStep.Redirection)).toEqual([first]);
+    expect(claimInstrumentationStep([first, second], InstrumentationStep.Redirection)).toEqual([second]);
+    expect(claimInstrumentationStep([first, second], InstrumentationStep.Tags)).toEqual([first, second]);
+  });
+
+  it("recognizes the functions by their definition rather than their function info", () => {
+    const handler = { handler: "app.handler", events: [] };
+    claimInstrumentationStep([{ name: "app", type: RuntimeType.NODE, handler }], InstrumentationStep.Tags);
+    expect(
+      claimInstrumentationStep([{ name: "app", type: RuntimeType.NODE, handler }], InstrumentationStep.Tags),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import { ExtendedFunctionDefinition, FunctionInfo } from "./layer";
+
+export enum InstrumentationStep {
+  Redirection = "redirection",
+  SourceCodeIntegration = "sourceCodeIntegration",
+  Tags = "tags",
+}
+
+// Keyed by the function definitions of the service, which outlive the `FunctionInfo` objects created by each hook
+const completedSteps = new WeakMap<ExtendedFunctionDefinition, Set<InstrumentationStep>>();
+
+/**
+ * Returns the functions a step of the instrumentation hasn't run on yet, and marks it as done for them, so
+ * the step runs once per function however many of the hooks the plugin is bound to fire.
+ */
+export function claimInstrumentationStep(handlers: FunctionInfo[], step: InstrumentationStep) {
+  return handlers.filter(({ handler }) => {
+    let steps = completedSteps.get(handler);
+    if (steps === undefined) {
+      steps = new Set();
+      completedSteps.set(handler, steps);
+    }
+    if (steps.has(step)) {
+      return false;
+    }
+    steps.add(step);
+    return true;
+  });
+}
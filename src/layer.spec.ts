@@ -12,9 +12,22 @@ import {
   RuntimeType,
   applyLambdaLibraryLayers,
   applyExtensionLayer,
+  applyDotnetTracingLayer,
+  applyLayerSource,
   findHandlers,
+  findLayerLimitViolations,
+  findMissingLayers,
+  findUnsupportedArchitectures,
+  isDeprecatedRuntime,
+  isLambdaAtEdgeFunction,
+  layerNames,
+  pinLayerVersions,
   pushLayerARN,
+  runtimeRegistry,
 } from "./layer";
+import { defaultConfiguration } from "./env";
+import layersJson from "./layers.json";
+import govLayersJson from "./layers-gov.json";
 
 import { FunctionDefinitionHandler, FunctionDefinitionImage } from "serverless";
 import Service from "serverless/classes/Service";
@@ -103,6 +116,73 @@ describe("findHandlers", () => {
       },
     ]);
   });
+  it("finds the runtime type of current runtimes", () => {
+    const mockService = createMockService("us-east-1", {
+      "node20-function": { handler: "myfile.handler", runtime: "nodejs20.x" },
+      "python312-function": { handler: "myfile.handler", runtime: "python3.12" },
+      "java21-function": { handler: "myfile.handler", runtime: "java21" },
+      "dotnet8-function": { handler: "myfile.handler", runtime: "dotnet8" },
+      "ruby33-function": { handler: "myfile.handler", runtime: "ruby3.3" },
+      "custom-function": { handler: "myfile.handler", runtime: "provided.al2023" },
+    });
+
+    const result = findHandlers(mockService, []);
+    expect(result.map(({ name, type }) => [name, type])).toEqual([
+      ["node20-function", RuntimeType.NODE],
+      ["python312-function", RuntimeType.PYTHON],
+      ["java21-function", RuntimeType.JAVA],
+      ["dotnet8-function", RuntimeType.DOTNET],
+      ["ruby33-function", RuntimeType.RUBY],
+      ["custom-function", RuntimeType.CUSTOM],
+    ]);
+  });
+
+  it("doesn't apply the provider runtime to container image functions", () => {
+    const mockService = createMockService("us-east-1", {
+      "image-function": { image: { name: "my-image", command: ["app.handler"] } } as any,
+      "python-image-function": { image: "my-image", runtime: "python3.12" } as any,
+      "node-function": { handler: "myfile.handler" },
+    });
+
+    const result = findHandlers(mockService, [], "nodejs14.x");
+    expect(result.map(({ name, type, runtime }) => [name, type, runtime])).toEqual([
+      ["image-function", RuntimeType.UNSUPPORTED, undefined],
+      ["python-image-function", RuntimeType.PYTHON, "python3.12"],
+      ["node-function", RuntimeType.NODE, "nodejs14.x"],
+    ]);
+  });
+
+  it("excludes functions matching name globs and selectors", () => {
+    const mockService = createMockService(
+      "us-east-1",
+      {
+        "api-get": { handler: "myfile.handler", runtime: "nodejs14.x" },
+        "api-post": { handler: "myfile.handler", runtime: "nodejs14.x", tags: { datadog: "off" } } as any,
+        "worker-python": { handler: "myfile.handler", runtime: "python3.9", architecture: "arm64" } as any,
+        "worker-node": { handler: "myfile.handler", runtime: "nodejs16.x" },
+      },
+      "x86_64",
+    );
+
+    const result = findHandlers(mockService, ["api-g?t", { tags: { datadog: "off" } }, { architecture: "arm64" }]);
+    expect(result.map(({ name }) => name)).toEqual(["worker-node"]);
+  });
+
+  it("only keeps functions matching an include selector", () => {
+    const mockService = createMockService("us-east-1", {
+      "api-get": { handler: "myfile.handler", runtime: "nodejs14.x" },
+      "api-post": { handler: "myfile.handler", runtime: "python3.8" },
+      "worker-python": { handler: "myfile.handler", runtime: "python3.9" },
+      "worker-node": { handler: "myfile.handler" },
+    });
+    (mockService.provider as any).tags = { team: "backend" };
+
+    const result = findHandlers(mockService, ["worker-*"], "nodejs14.x", [
+      { name: "api-*", runtime: "python3.*" },
+      { tags: { team: "back*" } },
+    ]);
+    expect(result.map(({ name }) => name)).toEqual(["api-get", "api-post"]);
+  });
 });
 
 describe("applyLambdaLibraryLayers", () => {
@@ -398,6 +478,27 @@ describe("applyLambdaLibraryLayers", () => {
     });
   });
 
+  it("doesn't add layers to container image functions", () => {
+    const handler = {
+      handler: { image: "123456789012.dkr.ecr.us-east-1.amazonaws.com/my-image:latest" },
+      type: RuntimeType.NODE,
+      runtime: "nodejs14.x",
+    } as FunctionInfo;
+    const layers: LayerJSON = {
+      regions: { "us-east-1": { "nodejs14.x": "node:2", extension: "extension:5" } },
+    };
+    const mockService = createMockService(
+      "us-east-1",
+      { "image-function": { image: "123456789012.dkr.ecr.us-east-1.amazonaws.com/my-image:latest" } },
+      "x86_64",
+      [],
+      ["my-layer-1"],
+    );
+    applyLambdaLibraryLayers(mockService, [handler], layers);
+    applyExtensionLayer(mockService, [handler], layers);
+    expect(handler.handler).toEqual({ image: "123456789012.dkr.ecr.us-east-1.amazonaws.com/my-image:latest" });
+  });
+
   it("adds correct lambda layer given architecture in function level", () => {
     const handler = {
       handler: { runtime: "python3.9", architecture: "arm64" },
@@ -491,7 +592,32 @@ describe("applyLambdaLibraryLayers", () => {
     });
   });
 
-  it("uses default runtime layer if architecture not available for specified runtime", () => {
+  it("adds the arm layer of python runtimes from the registry", () => {
+    const handler = {
+      handler: { runtime: "python3.12", architecture: "arm64" },
+      type: RuntimeType.PYTHON,
+      runtime: "python3.12",
+    } as FunctionInfo;
+    const layers: LayerJSON = {
+      regions: {
+        "us-east-1": {
+          "python3.12": "python:3.12",
+          "python3.12-arm": "python-arm:3.12",
+        },
+      },
+    };
+    const mockService = createMockService("us-east-1", {
+      "python-function": { handler: "myfile.handler", runtime: "python3.12" },
+    });
+    applyLambdaLibraryLayers(mockService, [handler], layers);
+    expect(handler.handler).toEqual({
+      architecture: "arm64",
+      runtime: "python3.12",
+      layers: ["python-arm:3.12"],
+    });
+  });
+
+  it("doesn't add the library layer when the runtime isn't supported on the architecture", () => {
     const handler = {
       handler: { runtime: "python3.7", architecture: "arm64" },
       type: RuntimeType.PYTHON,
@@ -518,10 +644,86 @@ describe("applyLambdaLibraryLayers", () => {
     expect(handler.handler).toEqual({
       architecture: "arm64",
       runtime: "python3.7",
-      layers: ["python:3.7", "extension-arm:11"],
+      layers: ["extension-arm:11"],
     });
   });
 
+  it("replaces the Datadog layers of other versions, accounts and architectures", () => {
+    const handler = {
+      name: "node-function",
+      handler: { runtime: "nodejs18.x" },
+      type: RuntimeType.NODE,
+      runtime: "nodejs18.x",
+    } as FunctionInfo;
+    (handler.handler as any).layers = [
+      "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node16-x:70",
+      "arn:aws:lambda:us-east-1:123456789012:layer:my-layer:1",
+      "arn:aws:lambda:us-east-1:123456789012:layer:Datadog-Extension-ARM:10",
+    ];
+    const layers: LayerJSON = {
+      regions: {
+        "us-east-1": {
+          "nodejs18.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node18-x:100",
+          extension: "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:50",
+        },
+      },
+    };
+    const mockService = createMockService("us-east-1", {});
+    expect(applyLambdaLibraryLayers(mockService, [handler], layers)).toEqual([
+      "Replaced the Datadog layer arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node16-x:70 of function node-function with arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node18-x:100",
+    ]);
+    expect(applyExtensionLayer(mockService, [handler], layers)).toEqual([
+      "Replaced the Datadog layer arn:aws:lambda:us-east-1:123456789012:layer:Datadog-Extension-ARM:10 of function node-function with arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:50",
+    ]);
+    expect((handler.handler as any).layers).toEqual([
+      "arn:aws:lambda:us-east-1:123456789012:layer:my-layer:1",
+      "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node18-x:100",
+      "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:50",
+    ]);
+  });
+
+  it("replaces the mirrored layers of previous versions when their names have the prefix of the layer source", () => {
+    const handler = {
+      name: "node-function",
+      handler: { runtime: "nodejs18.x" },
+      type: RuntimeType.NODE,
+      runtime: "nodejs18.x",
+    } as FunctionInfo;
+    (handler.handler as any).layers = [
+      "arn:aws:lambda:us-east-1:123456789012:layer:mirror-Datadog-Node18-x:90",
+      "arn:aws:lambda:us-east-1:123456789012:layer:mirror-my-layer:1",
+    ];
+    const layers: LayerJSON = {
+      regions: {
+        "us-east-1": { "nodejs18.x": "arn:aws:lambda:us-east-1:123456789012:layer:mirror-Datadog-Node18-x:100" },
+      },
+    };
+    const mockService = createMockService("us-east-1", {});
+    expect(applyLambdaLibraryLayers(mockService, [handler], layers, "mirror-")).toEqual([
+      "Replaced the Datadog layer arn:aws:lambda:us-east-1:123456789012:layer:mirror-Datadog-Node18-x:90 of function node-function with arn:aws:lambda:us-east-1:123456789012:layer:mirror-Datadog-Node18-x:100",
+    ]);
+    expect((handler.handler as any).layers).toEqual([
+      "arn:aws:lambda:us-east-1:123456789012:layer:mirror-my-layer:1",
+      "arn:aws:lambda:us-east-1:123456789012:layer:mirror-Datadog-Node18-x:100",
+    ]);
+  });
+
+  it("replaces the tracing layer of previous versions", () => {
+    const handler = {
+      name: "dotnet-function",
+      handler: { runtime: "dotnet6" },
+      type: RuntimeType.DOTNET,
+      runtime: "dotnet6",
+    } as FunctionInfo;
+    (handler.handler as any).layers = ["arn:aws:lambda:us-east-1:464622532012:layer:dd-trace-dotnet:4"];
+    const layers: LayerJSON = {
+      regions: { "us-east-1": { dotnet: "arn:aws:lambda:us-east-1:464622532012:layer:dd-trace-dotnet:6" } },
+    };
+    const mockService = createMockService("us-east-1", {});
+    expect(applyDotnetTracingLayer(mockService, handler, layers)).toHaveLength(1);
+    expect((handler.handler as any).layers).toEqual(["arn:aws:lambda:us-east-1:464622532012:layer:dd-trace-dotnet:6"]);
+  });
+
   it("swaps previous layer when specifying arm architecture in functions", () => {
     let handler = {
       handler: { runtime: "python3.9", architecture: "arm64" },
@@ -584,6 +786,194 @@ describe("applyLambdaLibraryLayers", () => {
   });
 });
 
+describe("layerNames", () => {
+  it("names the layer of every runtime of the registry", () => {
+    for (const { layers } of Object.values(runtimeRegistry)) {
+      for (const layerKey of Object.values(layers)) {
+        expect(layerNames).toHaveProperty([layerKey!]);
+      }
+    }
+  });
+
+  it("has the library layer of every runtime of the registry in every region of the bundled catalogs", () => {
+    for (const catalog of [layersJson, govLayersJson] as LayerJSON[]) {
+      for (const [region, regionLayers] of Object.entries(catalog.regions)) {
+        for (const { layers } of Object.values(runtimeRegistry)) {
+          for (const layerKey of Object.values(layers)) {
+            expect([region, layerKey, regionLayers?.[layerKey!]]).toEqual([region, layerKey, expect.any(String)]);
+          }
+        }
+      }
+    }
+  });
+});
+
+describe("isLambdaAtEdgeFunction", () => {
+  it("detects the functions triggered by CloudFront", () => {
+    expect(isLambdaAtEdgeFunction({ events: [{ cloudFront: { eventType: "viewer-request" } } as any] })).toBe(true);
+    expect(isLambdaAtEdgeFunction({ events: [], lambdaAtEdge: { eventType: "origin-request" } } as any)).toBe(true);
+    expect(isLambdaAtEdgeFunction({ events: [{ http: { path: "/", method: "get" } } as any] })).toBe(false);
+  });
+});
+
+describe("isDeprecatedRuntime", () => {
+  it("flags the runtimes deprecated by AWS Lambda", () => {
+    expect(isDeprecatedRuntime("nodejs12.x")).toBe(true);
+    expect(isDeprecatedRuntime("nodejs18.x")).toBe(true);
+    expect(isDeprecatedRuntime("python3.9")).toBe(true);
+    expect(isDeprecatedRuntime("nodejs22.x")).toBe(false);
+    expect(isDeprecatedRuntime("python3.12")).toBe(false);
+    expect(isDeprecatedRuntime("unknown")).toBe(false);
+    expect(isDeprecatedRuntime(undefined)).toBe(false);
+  });
+});
+
+describe("pinLayerVersions", () => {
+  const layers: LayerJSON = {
+    regions: {
+      "us-east-1": {
+        "nodejs14.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:78",
+        "nodejs16.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node16-x:78",
+        "python3.9": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Python39:58",
+        extension: "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:22",
+        "extension-arm": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension-ARM:22",
+      },
+      "us-west-2": {
+        extension: "arn:aws:lambda:us-west-2:464622532012:layer:Datadog-Extension:22",
+      },
+    },
+  };
+
+  it("replaces the versions of the pinned layers in the region", () => {
+    const result = pinLayerVersions(layers, "us-east-1", {
+      ...defaultConfiguration,
+      nodeLayerVersion: 80,
+      extensionLayerVersion: 23,
+    });
+    expect(result).toEqual({
+      layers: {
+        regions: {
+          "us-east-1": {
+            "nodejs14.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:80",
+            "nodejs16.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node16-x:80",
+            "python3.9": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Python39:58",
+            extension: "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:23",
+            "extension-arm": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension-ARM:23",
+          },
+          "us-west-2": {
+            extension: "arn:aws:lambda:us-west-2:464622532012:layer:Datadog-Extension:22",
+          },
+        },
+      },
+      warnings: [],
+    });
+  });
+
+  it("warns when a pinned version is older than the shipped one", () => {
+    const result = pinLayerVersions(layers, "us-east-1", { ...defaultConfiguration, pythonLayerVersion: 50 });
+    expect(result.layers.regions["us-east-1"]!["python3.9"]).toEqual(
+      "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Python39:50",
+    );
+    expect(result.warnings).toEqual([
+      "Warning: `pythonLayerVersion` pins the Datadog Python library layer to version 50, older than version 58 shipped with this plugin.",
+    ]);
+  });
+});
+
+describe("applyLayerSource", () => {
+  const layers: LayerJSON = {
+    regions: {
+      "us-east-1": {
+        "nodejs14.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:80",
+        extension: "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:22",
+      },
+    },
+  };
+
+  it("leaves the layers untouched without layerSource", () => {
+    expect(applyLayerSource(layers, "us-east-1", defaultConfiguration)).toBe(layers);
+  });
+
+  it("rewrites the account, partition and name of the layers of the region", () => {
+    const config = {
+      ...defaultConfiguration,
+      layerSource: { accountId: "123456789012", namePrefix: "Mirror-", partition: "aws-cn" },
+    };
+    expect(applyLayerSource(layers, "us-east-1", config).regions["us-east-1"]).toEqual({
+      "nodejs14.x": "arn:aws-cn:lambda:us-east-1:123456789012:layer:Mirror-Datadog-Node14-x:80",
+      extension: "arn:aws-cn:lambda:us-east-1:123456789012:layer:Mirror-Datadog-Extension:22",
+    });
+  });
+
+  it("uses the layers mapped by key of the layers catalog as is", () => {
+    const config = {
+      ...defaultConfiguration,
+      layerSource: {
+        accountId: "123456789012",
+        layers: { "python3.9": "arn:aws:lambda:us-east-1:123456789012:layer:Python:4" },
+      },
+    };
+    expect(applyLayerSource(layers, "us-east-1", config).regions["us-east-1"]).toEqual({
+      "nodejs14.x": "arn:aws:lambda:us-east-1:123456789012:layer:Datadog-Node14-x:80",
+      "python3.9": "arn:aws:lambda:us-east-1:123456789012:layer:Python:4",
+      extension: "arn:aws:lambda:us-east-1:123456789012:layer:Datadog-Extension:22",
+    });
+  });
+});
+
+describe("findMissingLayers", () => {
+  it("lists the library and extension layers missing for each function", () => {
+    const handlers = [
+      { name: "node-function", type: RuntimeType.NODE, runtime: "nodejs14.x", handler: { runtime: "nodejs14.x" } },
+      {
+        name: "python-function",
+        type: RuntimeType.PYTHON,
+        runtime: "python3.9",
+        handler: { runtime: "python3.9", architecture: "arm64" },
+      },
+    ] as FunctionInfo[];
+    const layers: LayerJSON = {
+      regions: { "us-east-1": { "nodejs14.x": "node:2", "python3.9": "python:3", extension: "extension:5" } },
+    };
+    const mockService = createMockService("us-east-1", {});
+    expect(findMissingLayers(mockService, handlers, layers, defaultConfiguration)).toEqual([
+      "python-function: python3.9-arm",
+      "python-function: extension-arm",
+    ]);
+    expect(findMissingLayers(mockService, handlers, layers, { ...defaultConfiguration, addExtension: false })).toEqual([
+      "python-function: python3.9-arm",
+    ]);
+  });
+});
+
+describe("findUnsupportedArchitectures", () => {
+  it("lists the functions whose runtime isn't supported on their architecture", () => {
+    const handlers = [
+      { name: "python37-arm", runtime: "python3.7", handler: { architecture: "arm64" } },
+      { name: "python37-x86", runtime: "python3.7", handler: {} },
+      { name: "python39-arm", runtime: "python3.9", handler: { architecture: "arm64" } },
+      { name: "unknown", runtime: "unknown", handler: {} },
+    ] as FunctionInfo[];
+    const mockService = createMockService("us-east-1", {});
+    expect(findUnsupportedArchitectures(mockService, handlers)).toEqual(["python37-arm: python3.7 (arm64)"]);
+  });
+});
+
+describe("findLayerLimitViolations", () => {
+  it("lists the functions with more than five layers, including the ones of the provider", () => {
+    const handlers = [
+      { name: "function-layers", handler: { layers: ["a", "b", "c", "d", "e", "f"] } },
+      { name: "provider-layers", handler: {} },
+      { name: "five-layers", handler: { layers: ["a", "b", "c", "d", "e"] } },
+    ] as FunctionInfo[];
+    const mockService = createMockService("us-east-1", {}, "x86_64", [], ["a", "b", "c", "d", "e", "f", "g"]);
+    expect(findLayerLimitViolations(mockService, handlers)).toEqual([
+      "function-layers: 6 layers",
+      "provider-layers: 7 layers",
+    ]);
+  });
+});
+
 describe("pushLayerARN", () => {
   it("appends a layer", () => {
     const layerARN = "extension:5";
@@ -598,4 +988,12 @@ describe("pushLayerARN", () => {
     currentLayers = pushLayerARN(layerARN, currentLayers);
     expect(currentLayers).toEqual(["extension:5"]);
   });
+
+  it("does not re-append an existing reference to a layer of the stack", () => {
+    const result = pushLayerARN({ Ref: "DatadogExtensionLambdaLayer" }, [
+      "my-layer",
+      { Ref: "DatadogExtensionLambdaLayer" },
+    ]);
+    expect(result).toEqual(["my-layer", { Ref: "DatadogExtensionLambdaLayer" }]);
+  });
 });
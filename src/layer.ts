@@ -7,6 +7,10 @@
  */
 import { FunctionDefinition, FunctionDefinitionHandler } from "serverless";
 import Service from "serverless/classes/Service";
+import type { Configuration } from "./env";
+import * as runtimes from "./runtimes.json";
+import { FunctionSelector, matchesAnySelector, SelectableFunction } from "./selectors";
+
 export enum RuntimeType {
   NODE,
   PYTHON,
@@ -28,10 +32,20 @@ export interface FunctionInfo {
 export const X86_64_ARCHITECTURE = "x86_64";
 export const ARM64_ARCHITECTURE = "arm64";
 export const DEFAULT_ARCHITECTURE = X86_64_ARCHITECTURE;
+// Maximum number of layers of a function allowed by AWS Lambda
+export const MAX_LAYERS_PER_FUNCTION = 5;
+
+// Container image of a function, either the URI or name of the image, or the image with overrides of its settings
+export type ImageDefinition =
+  | string
+  | { name?: string; uri?: string; command?: string[]; entryPoint?: string[]; workingDirectory?: string };
 
 // Separate interface since DefinitelyTyped currently doesn't include tags or env
 export interface ExtendedFunctionDefinition extends FunctionDefinition {
   architecture?: string;
+  image?: ImageDefinition;
+  // Function level overrides of the `custom.datadog` configuration
+  datadog?: Partial<Configuration>;
 }
 
 export interface LayerJSON {
@@ -44,39 +58,126 @@ export interface LayerJSON {
   };
 }
 
-export const runtimeLookup: { [key: string]: RuntimeType } = {
-  "nodejs12.x": RuntimeType.NODE,
-  "nodejs14.x": RuntimeType.NODE,
-  "nodejs16.x": RuntimeType.NODE,
-  "python3.6": RuntimeType.PYTHON,
-  "python3.7": RuntimeType.PYTHON,
-  "python3.8": RuntimeType.PYTHON,
-  "python3.9": RuntimeType.PYTHON,
-  "dotnetcore3.1": RuntimeType.DOTNET,
-  dotnet6: RuntimeType.DOTNET,
-  java11: RuntimeType.JAVA,
-  "java8.al2": RuntimeType.JAVA,
-  java8: RuntimeType.JAVA,
-  "provided.al2": RuntimeType.CUSTOM,
-  provided: RuntimeType.CUSTOM,
-  "ruby2.7": RuntimeType.RUBY,
-  "go1.x": RuntimeType.GO,
+// Layer ARN, or a reference to a layer of the service stack
+export type LayerReference = string | { Ref: string };
+
+// Layers the functions are instrumented with, which can also reference the layers published by the stack
+export interface LayerCatalog {
+  regions: {
+    [region: string]:
+      | {
+          [layerKey: string]: LayerReference | undefined;
+        }
+      | undefined;
+  };
+}
+
+// Private mirror of the Datadog layers, re-published in another account
+export interface LayerSource {
+  // Account the layers are published in, instead of the Datadog one
+  accountId?: string;
+  // Prefix added to the names of the Datadog layers
+  namePrefix?: string;
+  // Partition of the layer ARNs, e.g. `aws-cn`
+  partition?: string;
+  // Full layer ARNs by key of the layers catalog, e.g. `nodejs14.x` or `extension-arm`, used as is
+  layers?: { [layerKey: string]: string };
+}
+
+export interface RuntimeDefinition {
+  // Runtime family, e.g. `node` or `python`
+  family: string;
+  // Architectures the runtime supports
+  architectures: string[];
+  // Key of the Datadog library layer for each architecture, in the layers catalog
+  layers: { [architecture: string]: string | undefined };
+  // Whether the handler is redirected to the Datadog handler of the family
+  redirectHandler: boolean;
+  // Whether AWS Lambda deprecated the runtime
+  deprecated: boolean;
+}
+
+const runtimeFamilies: { [family: string]: RuntimeType } = {
+  node: RuntimeType.NODE,
+  python: RuntimeType.PYTHON,
+  dotnet: RuntimeType.DOTNET,
+  java: RuntimeType.JAVA,
+  ruby: RuntimeType.RUBY,
+  go: RuntimeType.GO,
+  custom: RuntimeType.CUSTOM,
 };
 
-export const armRuntimeKeys: { [key: string]: string } = {
-  "python3.8": "python3.8-arm",
-  "python3.9": "python3.9-arm",
-  extension: "extension-arm",
+export const runtimeRegistry: { [runtime: string]: RuntimeDefinition } = runtimes.runtimes;
+
+export const runtimeLookup: { [key: string]: RuntimeType } = Object.entries(runtimeRegistry).reduce(
+  (lookup, [runtime, { family }]) => ({ ...lookup, [runtime]: runtimeFamilies[family] }),
+  {},
+);
+
+// Function definitions the Datadog library layer was added to, whose handler can be redirected to the layer
+const libraryLayerFunctions = new WeakSet<ExtendedFunctionDefinition>();
+
+const extensionLayerKeys: { [architecture: string]: string } = {
+  [X86_64_ARCHITECTURE]: "extension",
+  [ARM64_ARCHITECTURE]: "extension-arm",
+};
+
+// Name of the layer published by Datadog for each key of the layers catalog. The keys must match the `layers`
+// of runtimes.json, and the extension and tracing layer keys.
+export const layerNames: { [layerKey: string]: string } = {
+  "nodejs12.x": "Datadog-Node12-x",
+  "nodejs14.x": "Datadog-Node14-x",
+  "nodejs16.x": "Datadog-Node16-x",
+  "nodejs18.x": "Datadog-Node18-x",
+  "nodejs20.x": "Datadog-Node20-x",
+  "nodejs22.x": "Datadog-Node22-x",
+  "python3.6": "Datadog-Python36",
+  "python3.7": "Datadog-Python37",
+  "python3.8": "Datadog-Python38",
+  "python3.8-arm": "Datadog-Python38-ARM",
+  "python3.9": "Datadog-Python39",
+  "python3.9-arm": "Datadog-Python39-ARM",
+  "python3.10": "Datadog-Python310",
+  "python3.10-arm": "Datadog-Python310-ARM",
+  "python3.11": "Datadog-Python311",
+  "python3.11-arm": "Datadog-Python311-ARM",
+  "python3.12": "Datadog-Python312",
+  "python3.12-arm": "Datadog-Python312-ARM",
+  "python3.13": "Datadog-Python313",
+  "python3.13-arm": "Datadog-Python313-ARM",
+  extension: "Datadog-Extension",
+  "extension-arm": "Datadog-Extension-ARM",
+  dotnet: "dd-trace-dotnet",
+  java: "dd-trace-java",
 };
 
 const dotnetTraceLayerKey: string = "dotnet";
 const javaTraceLayerKey: string = "java";
 
-export function findHandlers(service: Service, exclude: string[], defaultRuntime?: string): FunctionInfo[] {
+// Prefix of the keys of the layers catalog pinned by each version option
+const layerVersionOptions: { [option: string]: { prefix: string; description: string } } = {
+  nodeLayerVersion: { prefix: "nodejs", description: "Node.js library" },
+  pythonLayerVersion: { prefix: "python", description: "Python library" },
+  extensionLayerVersion: { prefix: "extension", description: "Lambda Extension" },
+  dotnetLayerVersion: { prefix: "dotnet", description: ".NET tracing" },
+  javaLayerVersion: { prefix: "java", description: "Java tracing" },
+};
+
+/**
+ * Finds the functions of the service, keeping the ones matching any `include` selector (all of them when
+ * `include` isn't set) and dropping the ones matching any `exclude` selector.
+ */
+export function findHandlers(
+  service: Service,
+  exclude: FunctionSelector[],
+  defaultRuntime?: string,
+  include?: FunctionSelector[],
+): FunctionInfo[] {
   return Object.entries(service.functions)
     .map(([name, handler]) => {
       let { runtime } = handler;
-      if (runtime === undefined) {
+      // Container images bring their own runtime, which `provider.runtime` doesn't tell
+      if (runtime === undefined && !isFunctionDefinitionImage(handler)) {
         runtime = defaultRuntime;
       }
       if (runtime !== undefined && runtime in runtimeLookup) {
@@ -85,112 +186,396 @@ export function findHandlers(service: Service, exclude: string[], defaultRuntime
       return { type: RuntimeType.UNSUPPORTED, runtime, name, handler } as FunctionInfo;
     })
     .filter((result) => result !== undefined)
-    .filter(
-      (result) => exclude === undefined || (exclude !== undefined && !exclude.includes(result.name)),
-    ) as FunctionInfo[];
+    .filter((result) => {
+      const selectableFunction = getSelectableFunction(service, result);
+      if (include !== undefined && !matchesAnySelector(selectableFunction, include)) {
+        return false;
+      }
+      return exclude === undefined || !matchesAnySelector(selectableFunction, exclude);
+    }) as FunctionInfo[];
 }
 
-export function applyLambdaLibraryLayers(service: Service, handlers: FunctionInfo[], layers: LayerJSON) {
+function getSelectableFunction(service: Service, func: FunctionInfo): SelectableFunction {
+  const { name, runtime, handler } = func;
+  return {
+    name,
+    runtime,
+    architecture: getArchitecture(service, func),
+    tags: { ...(service.provider as any).tags, ...handler.tags },
+  };
+}
+
+/**
+ * Replaces the versions of the layers shipped with the plugin by the versions pinned in the configuration,
+ * e.g. `nodeLayerVersion`, for the given region.
+ * @returns the pinned layers, and warnings for the pins older than the versions shipped with the plugin
+ */
+export function pinLayerVersions(layers: LayerJSON, region: string, config: Configuration) {
+  const warnings: string[] = [];
+  const regionLayers = layers.regions[region];
+  if (regionLayers === undefined) {
+    return { layers, warnings };
+  }
+
+  const pinnedRegionLayers = { ...regionLayers };
+  for (const [option, { prefix, description }] of Object.entries(layerVersionOptions)) {
+    const pinnedVersion: number | undefined = (config as any)[option];
+    if (pinnedVersion === undefined) {
+      continue;
+    }
+    let shippedVersion = 0;
+    for (const [layerKey, layerArn] of Object.entries(regionLayers)) {
+      if (layerArn === undefined || !layerKey.startsWith(prefix)) {
+        continue;
+      }
+      const separatorIndex = layerArn.lastIndexOf(":");
+      shippedVersion = Math.max(shippedVersion, Number(layerArn.slice(separatorIndex + 1)));
+      pinnedRegionLayers[layerKey] = `${layerArn.slice(0, separatorIndex)}:${pinnedVersion}`;
+    }
+    if (pinnedVersion < shippedVersion) {
+      warnings.push(
+        `Warning: \`${option}\` pins the Datadog ${description} layer to version ${pinnedVersion}, older than version ${shippedVersion} shipped with this plugin.`,
+      );
+    }
+  }
+  return { layers: { regions: { ...layers.regions, [region]: pinnedRegionLayers } }, warnings };
+}
+
+/**
+ * Rewrites the layer ARNs of the region to the private mirror of `layerSource`, then applies the ARNs it
+ * overrides by key of the layers catalog.
+ */
+export function applyLayerSource(layers: LayerJSON, region: string, config: Configuration): LayerJSON {
+  const { layerSource } = config;
+  if (layerSource === undefined) {
+    return layers;
+  }
+
+  const sourcedRegionLayers: { [layerKey: string]: string | undefined } = {};
+  for (const [layerKey, layerArn] of Object.entries(layers.regions[region] ?? {})) {
+    if (layerArn === undefined) {
+      continue;
+    }
+    // arn:partition:lambda:region:account:layer:name:version
+    const [arn, partition, service, layerRegion, accountId, resourceType, name, layerVersion] = layerArn.split(":");
+    sourcedRegionLayers[layerKey] = [
+      arn,
+      layerSource.partition ?? partition,
+      service,
+      layerRegion,
+      layerSource.accountId ?? accountId,
+      resourceType,
+      `${layerSource.namePrefix ?? ""}${name}`,
+      layerVersion,
+    ].join(":");
+  }
+  return { regions: { ...layers.regions, [region]: { ...sourcedRegionLayers, ...layerSource.layers } } };
+}
+
+/**
+ * Lists the layers the given functions need that can't be found in the region, as `function: layer key`.
+ */
+export function findMissingLayers(
+  service: Service,
+  handlers: FunctionInfo[],
+  layers: LayerCatalog,
+  config: Configuration,
+) {
+  const regionLayers = layers.regions[service.provider.region] ?? {};
+  const missingLayers: string[] = [];
+  for (const handler of handlers) {
+    if (handler.type === RuntimeType.UNSUPPORTED || isFunctionDefinitionImage(handler.handler)) {
+      continue;
+    }
+    const layerKeys: string[] = [];
+    const libraryLayerKey = getLibraryLayerKey(service, handler);
+    if (config.addLayers && libraryLayerKey !== undefined) {
+      layerKeys.push(libraryLayerKey);
+    }
+    if (config.addExtension) {
+      layerKeys.push(getExtensionLayerKey(service, handler));
+      if (handler.type === RuntimeType.DOTNET) {
+        layerKeys.push(dotnetTraceLayerKey);
+      } else if (handler.type === RuntimeType.JAVA) {
+        layerKeys.push(javaTraceLayerKey);
+      }
+    }
+    for (const layerKey of layerKeys) {
+      if (regionLayers[layerKey] === undefined) {
+        missingLayers.push(`${handler.name}: ${layerKey}`);
+      }
+    }
+  }
+  return missingLayers;
+}
+
+export function applyLambdaLibraryLayers(
+  service: Service,
+  handlers: FunctionInfo[],
+  layers: LayerCatalog,
+  namePrefix?: string,
+): string[] {
   const { region } = service.provider;
   const regionRuntimes = layers.regions[region];
   if (regionRuntimes === undefined) {
-    return;
+    return [];
   }
 
+  const replacements: string[] = [];
   for (const handler of handlers) {
-    if (handler.type === RuntimeType.UNSUPPORTED) {
+    if (handler.type === RuntimeType.UNSUPPORTED || isFunctionDefinitionImage(handler.handler)) {
       continue;
     }
 
-    const { runtime } = handler;
-    const architecture =
-      (handler.handler as any).architecture ?? (service.provider as any).architecture ?? DEFAULT_ARCHITECTURE;
-    let runtimeKey: string | undefined = runtime;
-    if (architecture === ARM64_ARCHITECTURE && runtime && runtime in armRuntimeKeys) {
-      runtimeKey = armRuntimeKeys[runtime];
-      removePreviousLayer(service, handler, regionRuntimes[runtime]);
+    const defaultRuntimeKey = runtimeRegistry[handler.runtime!]?.layers[DEFAULT_ARCHITECTURE];
+    const runtimeKey = getLibraryLayerKey(service, handler);
+    if (runtimeKey !== defaultRuntimeKey && defaultRuntimeKey !== undefined) {
+      removePreviousLayer(service, handler, regionRuntimes[defaultRuntimeKey]);
     }
 
     const lambdaLayerARN = runtimeKey !== undefined ? regionRuntimes[runtimeKey] : undefined;
     if (lambdaLayerARN) {
-      addLayer(service, handler, lambdaLayerARN);
+      replacements.push(...addLayer(service, handler, lambdaLayerARN, runtimeKey!, namePrefix));
+      libraryLayerFunctions.add(handler.handler);
     }
   }
+  return replacements;
 }
 
-export function applyExtensionLayer(service: Service, handlers: FunctionInfo[], layers: LayerJSON) {
+/**
+ * Whether `applyLambdaLibraryLayers` added the Datadog library layer to the function.
+ */
+export function hasLibraryLayer({ handler }: FunctionInfo) {
+  return libraryLayerFunctions.has(handler);
+}
+
+export function applyExtensionLayer(
+  service: Service,
+  handlers: FunctionInfo[],
+  layers: LayerCatalog,
+  namePrefix?: string,
+): string[] {
   const { region } = service.provider;
   const regionRuntimes = layers.regions[region];
   if (regionRuntimes === undefined) {
-    return;
+    return [];
   }
 
+  const replacements: string[] = [];
   for (const handler of handlers) {
-    if (handler.type === RuntimeType.UNSUPPORTED) {
+    if (handler.type === RuntimeType.UNSUPPORTED || isFunctionDefinitionImage(handler.handler)) {
       continue;
     }
-    const architecture =
-      (handler.handler as any).architecture ?? (service.provider as any).architecture ?? DEFAULT_ARCHITECTURE;
-    let extensionLayerARN: string | undefined;
-    let extensionLayerKey: string = "extension";
-
-    if (architecture === ARM64_ARCHITECTURE) {
-      removePreviousLayer(service, handler, regionRuntimes[extensionLayerKey]);
-      extensionLayerKey = armRuntimeKeys[extensionLayerKey];
+    const extensionLayerKey = getExtensionLayerKey(service, handler);
+    if (getArchitecture(service, handler) === ARM64_ARCHITECTURE) {
+      removePreviousLayer(service, handler, regionRuntimes[extensionLayerKeys[DEFAULT_ARCHITECTURE]]);
     }
 
-    extensionLayerARN = regionRuntimes[extensionLayerKey];
+    const extensionLayerARN = regionRuntimes[extensionLayerKey];
     if (extensionLayerARN) {
-      addLayer(service, handler, extensionLayerARN);
+      replacements.push(...addLayer(service, handler, extensionLayerARN, extensionLayerKey, namePrefix));
     }
   }
+  return replacements;
 }
 
-export function applyDotnetTracingLayer(service: Service, handler: FunctionInfo, layers: LayerJSON) {
+export function applyDotnetTracingLayer(
+  service: Service,
+  handler: FunctionInfo,
+  layers: LayerCatalog,
+  namePrefix?: string,
+): string[] {
   const { region } = service.provider;
   const regionRuntimes = layers.regions[region];
-  if (regionRuntimes === undefined) {
-    return;
+  if (regionRuntimes === undefined || isFunctionDefinitionImage(handler.handler)) {
+    return [];
   }
 
-  const traceLayerARN: string | undefined = regionRuntimes[dotnetTraceLayerKey];
-
-  if (traceLayerARN) {
-    addLayer(service, handler, traceLayerARN);
+  const traceLayerARN = regionRuntimes[dotnetTraceLayerKey];
+  if (!traceLayerARN) {
+    return [];
   }
+  return addLayer(service, handler, traceLayerARN, dotnetTraceLayerKey, namePrefix);
 }
 
-export function applyJavaTracingLayer(service: Service, handler: FunctionInfo, layers: LayerJSON) {
+export function applyJavaTracingLayer(
+  service: Service,
+  handler: FunctionInfo,
+  layers: LayerCatalog,
+  namePrefix?: string,
+): string[] {
   const { region } = service.provider;
   const regionRuntimes = layers.regions[region];
-  if (regionRuntimes === undefined) {
+  if (regionRuntimes === undefined || isFunctionDefinitionImage(handler.handler)) {
+    return [];
+  }
+
+  const traceLayerARN = regionRuntimes[javaTraceLayerKey];
+  if (!traceLayerARN) {
+    return [];
+  }
+  return addLayer(service, handler, traceLayerARN, javaTraceLayerKey, namePrefix);
+}
+
+function getArchitecture(service: Service, handler: FunctionInfo): string {
+  return (handler.handler as any).architecture ?? (service.provider as any).architecture ?? DEFAULT_ARCHITECTURE;
+}
+
+/**
+ * Returns the key of the layers catalog of the Datadog library layer for the runtime and architecture of the
+ * function. Runtimes AWS Lambda doesn't support on the architecture of the function get no library layer, the
+ * layer of another architecture would fail to load.
+ */
+export function getLibraryLayerKey(service: Service, handler: FunctionInfo) {
+  const runtimeDefinition = runtimeRegistry[handler.runtime!];
+  const architecture = getArchitecture(service, handler);
+  if (runtimeDefinition === undefined || !runtimeDefinition.architectures.includes(architecture)) {
     return;
   }
+  return runtimeDefinition.layers[architecture];
+}
+
+/**
+ * Lists the functions whose runtime isn't supported on their architecture, as `function: runtime (architecture)`.
+ */
+export function findUnsupportedArchitectures(service: Service, handlers: FunctionInfo[]) {
+  const unsupported: string[] = [];
+  for (const handler of handlers) {
+    const runtimeDefinition = runtimeRegistry[handler.runtime!];
+    const architecture = getArchitecture(service, handler);
+    if (runtimeDefinition !== undefined && !runtimeDefinition.architectures.includes(architecture)) {
+      unsupported.push(`${handler.name}: ${handler.runtime} (${architecture})`);
+    }
+  }
+  return unsupported;
+}
+
+function getExtensionLayerKey(service: Service, handler: FunctionInfo) {
+  return extensionLayerKeys[getArchitecture(service, handler)] ?? extensionLayerKeys[DEFAULT_ARCHITECTURE];
+}
+
+/**
+ * Lists the functions with more layers than AWS Lambda allows, as `function: count`, which would otherwise
+ * only fail when CloudFormation creates them.
+ */
+export function findLayerLimitViolations(service: Service, handlers: FunctionInfo[]) {
+  const violations: string[] = [];
+  for (const handler of handlers) {
+    const layerCount = getLayers(service, handler).length;
+    if (layerCount > MAX_LAYERS_PER_FUNCTION) {
+      violations.push(`${handler.name}: ${layerCount} layers`);
+    }
+  }
+  return violations;
+}
 
-  const traceLayerARN: string | undefined = regionRuntimes[javaTraceLayerKey];
+export function isDeprecatedRuntime(runtime: string | undefined) {
+  return runtime !== undefined && runtimeRegistry[runtime]?.deprecated === true;
+}
 
-  if (traceLayerARN) {
-    addLayer(service, handler, traceLayerARN);
+export function pushLayerARN<T extends LayerReference>(layerARN: T, currentLayers: T[]): T[] {
+  if (currentLayers.some((layer) => isSameLayer(layer, layerARN))) {
+    return currentLayers;
   }
+  return [...currentLayers, layerARN];
 }
 
-export function pushLayerARN(layerARN: string, currentLayers: string[]): string[] {
-  const layerSet = new Set(currentLayers);
-  layerSet.add(layerARN);
-  return Array.from(layerSet);
+function isSameLayer(layer: LayerReference, otherLayer: LayerReference | undefined) {
+  return JSON.stringify(layer) === JSON.stringify(otherLayer);
 }
 
 export function isFunctionDefinitionHandler(funcDef: FunctionDefinition): funcDef is FunctionDefinitionHandler {
   return typeof (funcDef as any).handler === "string";
 }
 
-function addLayer(service: Service, handler: FunctionInfo, layerArn: string) {
+// Lambda@Edge functions, triggered by CloudFront, can't use environment variables or layers. They are declared
+// with `cloudFront` events, or with `lambdaAtEdge` by serverless-plugin-cloudfront-lambda-edge
+export function isLambdaAtEdgeFunction(funcDef: FunctionDefinition) {
+  const { events, lambdaAtEdge } = funcDef as any;
+  return (
+    lambdaAtEdge !== undefined ||
+    ((events ?? []) as any[]).some((event) => event.cloudFront !== undefined || event.lambdaAtEdge !== undefined)
+  );
+}
+
+// Functions deployed from a container image can't use layers, the Datadog libraries must be part of the image
+export function isFunctionDefinitionImage(funcDef: FunctionDefinition) {
+  return (funcDef as ExtendedFunctionDefinition).image !== undefined;
+}
+
+/**
+ * Adds the layer to the function, replacing the Datadog layers of the same kind it already has, e.g. an older
+ * version of the Datadog library layer left by a previous version of the plugin.
+ * @param namePrefix - the prefix of the names of the mirrored Datadog layers, see `LayerSource`
+ * @returns a message for every replaced layer
+ */
+function addLayer(
+  service: Service,
+  handler: FunctionInfo,
+  layerArn: LayerReference,
+  layerKey: string,
+  namePrefix?: string,
+) {
+  const layerKind = getLayerKind(layerKey);
+  const staleLayers = getLayers(service, handler).filter((layer) => {
+    const existingLayerKey = getDatadogLayerKey(layer, namePrefix);
+    return (
+      existingLayerKey !== undefined && getLayerKind(existingLayerKey) === layerKind && !isSameLayer(layer, layerArn)
+    );
+  });
+  for (const staleLayer of staleLayers) {
+    removePreviousLayer(service, handler, staleLayer);
+  }
   setLayers(handler, pushLayerARN(layerArn, getLayers(service, handler)));
+  return staleLayers.map(
+    (staleLayer) =>
+      `Replaced the Datadog layer ${staleLayer} of function ${handler.name} with ${formatLayerReference(layerArn)}`,
+  );
+}
+
+// A function needs a single Datadog layer of each kind, whatever its runtime or architecture
+function getLayerKind(layerKey: string) {
+  if (Object.values(extensionLayerKeys).includes(layerKey)) {
+    return "extension";
+  }
+  if (layerKey === dotnetTraceLayerKey || layerKey === javaTraceLayerKey) {
+    return layerKey;
+  }
+  return "library";
+}
+
+/**
+ * Whether a layer ARN is one of the layers published by Datadog, whatever its account, region or version.
+ * @param namePrefix - the prefix of the names of the mirrored Datadog layers, see `LayerSource`
+ */
+export function isDatadogLayer(layer: LayerReference, namePrefix?: string) {
+  return getDatadogLayerKey(layer, namePrefix) !== undefined;
+}
+
+// Finds the key of a layer ARN published by Datadog, or mirrored with the name prefix, from its name, whatever
+// its account, region or version
+function getDatadogLayerKey(layer: LayerReference, namePrefix?: string) {
+  if (typeof layer !== "string") {
+    return;
+  }
+  // arn:partition:lambda:region:account:layer:name:version
+  const [, , , , , resourceType, name] = layer.split(":");
+  if (resourceType !== "layer") {
+    return;
+  }
+  const layerName = namePrefix && name?.startsWith(namePrefix) ? name.slice(namePrefix.length) : name;
+  return Object.keys(layerNames).find(
+    (layerKey) => layerNames[layerKey] === name || layerNames[layerKey] === layerName,
+  );
+}
+
+function formatLayerReference(layer: LayerReference) {
+  return typeof layer === "string" ? layer : `the ${layer.Ref} layer of the service`;
 }
 
 function getLayers(service: Service, handler: FunctionInfo) {
-  const functionLayersList = ((handler.handler as any).layers as string[] | string[]) || [];
-  const serviceLayersList = ((service.provider as any).layers as string[] | string[]) || [];
+  const functionLayersList = ((handler.handler as any).layers as LayerReference[]) || [];
+  const serviceLayersList = ((service.provider as any).layers as LayerReference[]) || [];
   // Function-level layers override service-level layers
   // Append to the function-level layers if other function-level layers are present
   // If service-level layers are present
@@ -203,14 +588,14 @@ function getLayers(service: Service, handler: FunctionInfo) {
   }
 }
 
-function removePreviousLayer(service: Service, handler: FunctionInfo, previousLayer: string | undefined) {
+function removePreviousLayer(service: Service, handler: FunctionInfo, previousLayer: LayerReference | undefined) {
   let layersList = getLayers(service, handler);
-  if (new Set(layersList).has(previousLayer!)) {
-    layersList = layersList?.filter((layer) => layer !== previousLayer);
+  if (layersList.some((layer) => isSameLayer(layer, previousLayer))) {
+    layersList = layersList.filter((layer) => !isSameLayer(layer, previousLayer));
   }
   setLayers(handler, layersList);
 }
 
-function setLayers(handler: FunctionInfo, layers: string[]) {
+function setLayers(handler: FunctionInfo, layers: LayerReference[]) {
   (handler.handler as any).layers = layers;
 }
@@ -0,0 +1,81 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import mock from "mock-fs";
+import Service from "serverless/classes/Service";
+import { defaultConfiguration } from "./env";
+import { LayerJSON, layerNames } from "./layer";
+import { addLocalLayers, getLocalLayerName } from "./local-layers";
+
+function createMockService(layers?: { [name: string]: any }) {
+  return { provider: { region: "us-east-1" }, layers } as any as Service;
+}
+
+describe("getLocalLayerName", () => {
+  it("names the layers after the keys of the layers catalog", () => {
+    expect(getLocalLayerName("nodejs14.x")).toEqual("DatadogNodejs14X");
+    expect(getLocalLayerName("python3.9-arm")).toEqual("DatadogPython39Arm");
+    expect(getLocalLayerName("extension")).toEqual("DatadogExtension");
+  });
+});
+
+describe("addLocalLayers", () => {
+  const layers: LayerJSON = {
+    regions: {
+      "us-east-1": {
+        "nodejs14.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:80",
+        extension: "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:22",
+      },
+    },
+  };
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("leaves the service and layers untouched without localLayers", async () => {
+    const service = createMockService();
+    expect(await addLocalLayers(service, layers, "us-east-1", defaultConfiguration, "/service")).toBe(layers);
+    expect(service.layers).toBeUndefined();
+  });
+
+  it("adds the zips to the layers of the service and references them in place of the ARNs", async () => {
+    mock({ "/service/layers/extension.zip": "" });
+    const service = createMockService({ other: { path: "other" } });
+    const config = { ...defaultConfiguration, localLayers: { extension: "layers/extension.zip" } };
+
+    expect(await addLocalLayers(service, layers, "us-east-1", config, "/service")).toEqual({
+      regions: {
+        "us-east-1": {
+          "nodejs14.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:80",
+          extension: { Ref: "DatadogExtensionLambdaLayer" },
+        },
+      },
+    });
+    expect(service.layers).toEqual({
+      other: { path: "other" },
+      DatadogExtension: { package: { artifact: "layers/extension.zip" }, description: "Datadog extension layer" },
+    });
+  });
+
+  it("throws an error listing the valid keys when a key isn't a key of the layers catalog", async () => {
+    mock({ "/service/layers/node.zip": "" });
+    const config = { ...defaultConfiguration, localLayers: { nodejs14: "layers/node.zip" } };
+    await expect(addLocalLayers(createMockService(), layers, "us-east-1", config, "/service")).rejects.toThrow(
+      `Unknown layer keys in \`localLayers\`: nodejs14. Valid keys are ${Object.keys(layerNames).join(", ")}.`,
+    );
+  });
+
+  it("throws an error when a zip can't be found", async () => {
+    mock({});
+    const config = { ...defaultConfiguration, localLayers: { "nodejs14.x": "layers/node.zip" } };
+    await expect(addLocalLayers(createMockService(), layers, "us-east-1", config, "/service")).rejects.toThrow(
+      "Unable to find the layer zips of `localLayers`: layers/node.zip.",
+    );
+  });
+});
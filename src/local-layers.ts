@@ -0,0 +1,81 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import fs from "fs";
+import { resolve } from "path";
+import Service from "serverless/classes/Service";
+import { promisify } from "util";
+import { Configuration } from "./env";
+import { LayerCatalog, LayerReference, layerNames } from "./layer";
+
+/**
+ * Returns the name of the layer of the service publishing a local layer zip, e.g. `DatadogPython39Arm`
+ * for the `python3.9-arm` key of the layers catalog.
+ */
+export function getLocalLayerName(layerKey: string) {
+  const words = layerKey.split(/[^a-zA-Z0-9]+/).filter((word) => word.length > 0);
+  return `Datadog${words.map((word) => `${word[0].toUpperCase()}${word.slice(1)}`).join("")}`;
+}
+
+/**
+ * Adds the local layer zips of `localLayers` to the layers of the service, which the Serverless Framework
+ * uploads and compiles to `AWS::Lambda::LayerVersion` resources, and replaces the ARNs of the region by
+ * references to these resources.
+ * @param servicePath - the directory the paths of the zips are resolved from
+ */
+export async function addLocalLayers(
+  service: Service,
+  layers: LayerCatalog,
+  region: string,
+  config: Configuration,
+  servicePath: string,
+): Promise<LayerCatalog> {
+  const { localLayers } = config;
+  if (localLayers === undefined) {
+    return layers;
+  }
+
+  // A mistyped key would leave the functions with the public layer the zips are meant to replace
+  const unknownLayerKeys = Object.keys(localLayers).filter((layerKey) => layerNames[layerKey] === undefined);
+  if (unknownLayerKeys.length > 0) {
+    throw new Error(
+      `Unknown layer keys in \`localLayers\`: ${unknownLayerKeys.join(", ")}. Valid keys are ${Object.keys(
+        layerNames,
+      ).join(", ")}.`,
+    );
+  }
+
+  const missingArtifacts: string[] = [];
+  for (const artifact of Object.values(localLayers)) {
+    try {
+      await promisify(fs.access)(resolve(servicePath, artifact));
+    } catch {
+      missingArtifacts.push(artifact);
+    }
+  }
+  if (missingArtifacts.length > 0) {
+    throw new Error(`Unable to find the layer zips of \`localLayers\`: ${missingArtifacts.join(", ")}.`);
+  }
+
+  service.layers ??= {};
+  const localRegionLayers: { [layerKey: string]: LayerReference } = {};
+  for (const [layerKey, artifact] of Object.entries(localLayers)) {
+    const layerName = getLocalLayerName(layerKey);
+    // The layer may already have been added when the plugin instruments the functions again
+    if (service.layers[layerName] !== undefined && service.layers[layerName].package?.artifact !== artifact) {
+      throw new Error(`The layer ${layerName} of \`localLayers.${layerKey}\` is already defined in the service.`);
+    }
+    service.layers[layerName] = {
+      package: { artifact },
+      description: `Datadog ${layerKey} layer`,
+    };
+    // Logical id the Serverless Framework gives the `AWS::Lambda::LayerVersion` of a layer of the service
+    localRegionLayers[layerKey] = { Ref: `${layerName}LambdaLayer` };
+  }
+  return { regions: { ...layers.regions, [region]: { ...layers.regions[region], ...localRegionLayers } } };
+}
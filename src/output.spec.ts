@@ -0,0 +1,51 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import { getSecretValues, redactSecret, redactSecrets } from "./output";
+
+describe("redactSecret", () => {
+  it("keeps the last characters of long secrets", () => {
+    expect(redactSecret("0123456789abcdef0123456789abcdef")).toEqual("****cdef");
+  });
+
+  it("redacts short secrets completely", () => {
+    expect(redactSecret(1234)).toEqual("****");
+  });
+});
+
+describe("getSecretValues", () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it("returns the keys of the configuration and of the environment", () => {
+    process.env = { DATADOG_API_KEY: "env-api-key", DATADOG_APP_KEY: "" };
+    expect(getSecretValues({ apiKey: "config-api-key", apiKMSKey: "kms-api-key", site: "datadoghq.com" })).toEqual([
+      "config-api-key",
+      "kms-api-key",
+      "env-api-key",
+    ]);
+  });
+});
+
+describe("redactSecrets", () => {
+  it("redacts every occurrence of the secrets", () => {
+    expect(
+      redactSecrets("Using 0123456789abcdef0123456789abcdef, then 0123456789abcdef0123456789abcdef and abcd", [
+        "0123456789abcdef0123456789abcdef",
+        "abcd",
+      ]),
+    ).toEqual("Using ****cdef, then ****cdef and ****");
+  });
+
+  it("leaves messages without secrets untouched", () => {
+    expect(redactSecrets("Adding Datadog Env Vars", ["1234"])).toEqual("Adding Datadog Env Vars");
+  });
+});
@@ -1,10 +1,12 @@
 import * as Serverless from "serverless";
+import { Configuration, ConfigurationValueSource } from "./env";
 import { FunctionInfo } from "./layer";
 
 const yellowFont = "\x1b[33m";
 const underlineFont = "\x1b[4m";
 const endFont = "\x1b[0m";
 const outputPrefix = "DatadogMonitor";
+const secretConfigurationKeys = ["apiKey", "appKey", "monitorsApiKey", "monitorsAppKey", "apiKMSKey"];
 
 /**
  * Builds the CloudFormation Outputs containing the alphanumeric key, description,
@@ -60,6 +62,64 @@ export async function printOutputs(serverless: Serverless, site: string) {
   logMessage(`https://app.${site}/monitors/manage?q=tag%3A%28%22env%3A${env}%22AND%22service%3A${service}%22%29`);
 }
 
+/**
+ * Prints the resolved configuration with the source of every value, redacting secrets.
+ * The JSON output is meant to be parsed, so nothing else is printed along with it.
+ */
+export function printConfiguration(
+  sources: { [key: string]: ConfigurationValueSource },
+  stage: string | undefined,
+  json: boolean,
+) {
+  const configuration: { [key: string]: ConfigurationValueSource } = {};
+  for (const key of Object.keys(sources).sort()) {
+    const { value, source } = sources[key];
+    configuration[key] = { value: secretConfigurationKeys.includes(key) ? redactSecret(value) : value, source };
+  }
+
+  if (json) {
+    console.log(JSON.stringify({ stage, configuration }, undefined, 2));
+    return;
+  }
+
+  logHeader(`Datadog configuration for stage ${stage}`, true);
+  for (const [key, { value, source }] of Object.entries(configuration)) {
+    logMessage(`${key}: ${JSON.stringify(value)} (${source})`);
+  }
+}
+
+/**
+ * Only keeps the last characters of long secrets, so they can still be told apart.
+ */
+export function redactSecret(secret: any) {
+  const value = `${secret}`;
+  return value.length >= 16 ? `****${value.slice(-4)}` : "****";
+}
+
+/**
+ * Returns the secrets of the configuration and of the deployment environment, which must not be printed.
+ */
+export function getSecretValues(config: Partial<Configuration>) {
+  const secrets = [
+    ...secretConfigurationKeys.map((key) => (config as { [key: string]: any })[key]),
+    process.env.DATADOG_API_KEY,
+    process.env.DATADOG_APP_KEY,
+  ];
+  return secrets.filter((secret) => secret !== undefined && `${secret}`.length > 0).map((secret) => `${secret}`);
+}
+
+/**
+ * Redacts every occurrence of the given secrets in a message.
+ */
+export function redactSecrets(message: string, secrets: string[]) {
+  // Longer secrets first, in case one of them contains another
+  const sortedSecrets = [...secrets].sort((a, b) => b.length - a.length);
+  return sortedSecrets.reduce(
+    (redactedMessage, secret) => redactedMessage.split(secret).join(redactSecret(secret)),
+    message,
+  );
+}
+
 function logHeader(message: string, underline = false) {
   const startFont = underline ? `${yellowFont}${underlineFont}` : `${yellowFont}`;
   console.log(`${startFont}${message}${endFont}`);
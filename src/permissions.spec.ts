@@ -0,0 +1,137 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import Service from "serverless/classes/Service";
+import { defaultConfiguration } from "./env";
+import { FunctionInfo, RuntimeType } from "./layer";
+import { addApiKeyPermissions, getApiKeyPermissionStatements, IamStatement } from "./permissions";
+
+const secretStatement: IamStatement = {
+  Effect: "Allow",
+  Action: ["secretsmanager:GetSecretValue"],
+  Resource: "arn:aws:secretsmanager:us-east-1:123456789012:secret:dd-api-key",
+};
+
+function createMockService(provider: any, functions: { [name: string]: any }) {
+  return { provider, functions } as any as Service;
+}
+
+function getHandlers(service: Service): FunctionInfo[] {
+  return Object.entries(service.functions).map(([name, handler]) => ({
+    name,
+    handler,
+    type: RuntimeType.NODE,
+    runtime: "nodejs14.x",
+  }));
+}
+
+describe("getApiKeyPermissionStatements", () => {
+  it("returns no statements when the api key isn't stored in AWS", () => {
+    expect(getApiKeyPermissionStatements({ ...defaultConfiguration, apiKey: "1234" })).toEqual([]);
+  });
+
+  it("returns the statements for the secret and the KMS key", () => {
+    expect(
+      getApiKeyPermissionStatements({
+        ...defaultConfiguration,
+        apiKeySecretArn: secretStatement.Resource,
+        apiKMSKey: "5678",
+      }),
+    ).toEqual([secretStatement, { Effect: "Allow", Action: ["kms:Decrypt"], Resource: "*" }]);
+  });
+  it("returns the statements for the SSM parameter", () => {
+    expect(
+      getApiKeyPermissionStatements({
+        ...defaultConfiguration,
+        apiKeySSMArn: "arn:aws:ssm:us-east-1:123:parameter/dd",
+      }),
+    ).toEqual([
+      { Effect: "Allow", Action: ["ssm:GetParameter"], Resource: "arn:aws:ssm:us-east-1:123:parameter/dd" },
+      { Effect: "Allow", Action: ["kms:Decrypt"], Resource: "*" },
+    ]);
+  });
+
+  it("references the managed secret", () => {
+    expect(
+      getApiKeyPermissionStatements({ ...defaultConfiguration, apiKey: "1234", apiKeyStorage: "managedSecret" }),
+    ).toEqual([
+      { Effect: "Allow", Action: ["secretsmanager:GetSecretValue"], Resource: { Ref: "DatadogApiKeySecret" } },
+    ]);
+  });
+});
+
+describe("addApiKeyPermissions", () => {
+  it("adds the statements to the provider level role statements", () => {
+    const service = createMockService(
+      { iam: { role: { statements: [{ Effect: "Allow", Action: ["s3:GetObject"], Resource: "*" }] } } },
+      { node1: { handler: "my-func.ev" } },
+    );
+
+    expect(addApiKeyPermissions(service, getHandlers(service), [secretStatement])).toEqual([]);
+    expect((service.provider as any).iam.role.statements).toEqual([
+      { Effect: "Allow", Action: ["s3:GetObject"], Resource: "*" },
+      secretStatement,
+    ]);
+  });
+
+  it("adds the statements to the deprecated iamRoleStatements", () => {
+    const service = createMockService({ iamRoleStatements: [] }, { node1: { handler: "my-func.ev" } });
+
+    addApiKeyPermissions(service, getHandlers(service), [secretStatement]);
+    expect((service.provider as any).iamRoleStatements).toEqual([secretStatement]);
+    expect((service.provider as any).iam).toBeUndefined();
+  });
+
+  it("adds the statements to the compiled default role once", () => {
+    const role = {
+      Type: "AWS::IAM::Role",
+      Properties: { Policies: [{ PolicyName: "lambda", PolicyDocument: { Version: "2012-10-17", Statement: [] } }] },
+    };
+    const service = createMockService(
+      { compiledCloudFormationTemplate: { Resources: { IamRoleLambdaExecution: role } } },
+      { node1: { handler: "my-func.ev" } },
+    );
+
+    addApiKeyPermissions(service, getHandlers(service), [secretStatement]);
+    addApiKeyPermissions(service, getHandlers(service), [secretStatement]);
+    expect(role.Properties.Policies[0].PolicyDocument.Statement).toEqual([secretStatement]);
+    expect((service.provider as any).iam).toBeUndefined();
+  });
+
+  it("adds the statements to per function roles", () => {
+    const service = createMockService(
+      {},
+      {
+        node1: { handler: "my-func.ev", iamRoleStatements: [] },
+        node2: { handler: "my-func.ev", iamRoleStatements: [] },
+      },
+    );
+
+    addApiKeyPermissions(service, getHandlers(service), [secretStatement]);
+    expect(service.functions.node1).toMatchObject({ iamRoleStatements: [secretStatement] });
+    expect(service.functions.node2).toMatchObject({ iamRoleStatements: [secretStatement] });
+    // No function uses the default role
+    expect((service.provider as any).iam).toBeUndefined();
+  });
+
+  it("warns about roles defined outside of the service", () => {
+    const service = createMockService(
+      { iam: { role: "arn:aws:iam::123456789012:role/lambda" } },
+      {
+        node1: { handler: "my-func.ev" },
+        node2: { handler: "my-func.ev", role: { "Fn::GetAtt": ["CustomRole", "Arn"] } },
+      },
+    );
+
+    expect(addApiKeyPermissions(service, getHandlers(service), [secretStatement])).toEqual([
+      "Warning: Unable to add the secretsmanager:GetSecretValue permissions to the role of function node2, make sure it allows retrieving the Datadog API key.",
+      "Warning: Unable to add the secretsmanager:GetSecretValue permissions to the provider level role, make sure it allows retrieving the Datadog API key.",
+    ]);
+    expect((service.provider as any).iam).toEqual({ role: "arn:aws:iam::123456789012:role/lambda" });
+  });
+});
@@ -0,0 +1,110 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import Service from "serverless/classes/Service";
+import { getApiKeySecretArn } from "./api-key-secret";
+import { Configuration } from "./env";
+import { FunctionInfo } from "./layer";
+
+export const defaultRoleLogicalId = "IamRoleLambdaExecution";
+
+export interface IamStatement {
+  Effect: "Allow";
+  Action: string[];
+  Resource: any;
+}
+
+/**
+ * Returns the IAM statements the functions need to retrieve the Datadog API key at runtime.
+ */
+export function getApiKeyPermissionStatements(config: Configuration): IamStatement[] {
+  const statements: IamStatement[] = [];
+  const apiKeySecretArn = getApiKeySecretArn(config);
+  if (apiKeySecretArn !== undefined) {
+    statements.push({ Effect: "Allow", Action: ["secretsmanager:GetSecretValue"], Resource: apiKeySecretArn });
+  }
+  if (config.apiKeySSMArn !== undefined) {
+    statements.push({ Effect: "Allow", Action: ["ssm:GetParameter"], Resource: config.apiKeySSMArn });
+  }
+  if (config.apiKMSKey !== undefined || config.apiKeySSMArn !== undefined) {
+    // The key used to encrypt `apiKMSKey` is only known from the ciphertext, and the one of a SecureString
+    // parameter isn't part of its ARN, so they can't be narrowed down here
+    statements.push({ Effect: "Allow", Action: ["kms:Decrypt"], Resource: "*" });
+  }
+  return statements;
+}
+
+/**
+ * Adds the statements to the roles used by the given functions: the statements of per function roles
+ * (serverless-iam-roles-per-function), the compiled default role when it already exists, or the provider
+ * level `iam.role.statements` otherwise.
+ * @returns warnings for the roles the plugin doesn't manage, which need the permissions to be added by hand
+ */
+export function addApiKeyPermissions(service: Service, handlers: FunctionInfo[], statements: IamStatement[]) {
+  const warnings: string[] = [];
+  if (statements.length === 0) {
+    return warnings;
+  }
+
+  let usesDefaultRole = false;
+  for (const { name, handler } of handlers) {
+    const functionDefinition = handler as any;
+    if (Array.isArray(functionDefinition.iamRoleStatements)) {
+      addStatements(functionDefinition.iamRoleStatements, statements);
+    } else if (functionDefinition.role !== undefined) {
+      warnings.push(getMissingPermissionsWarning(`the role of function ${name}`, statements));
+    } else {
+      usesDefaultRole = true;
+    }
+  }
+  if (!usesDefaultRole) {
+    return warnings;
+  }
+
+  const provider = service.provider as any;
+  const compiledRole = provider.compiledCloudFormationTemplate?.Resources?.[defaultRoleLogicalId];
+  const providerRole = provider.iam?.role ?? provider.role;
+  if (compiledRole !== undefined) {
+    const policy = compiledRole.Properties?.Policies?.[0];
+    if (policy?.PolicyDocument?.Statement !== undefined) {
+      addStatements(policy.PolicyDocument.Statement, statements);
+    } else {
+      warnings.push(getMissingPermissionsWarning(`the ${defaultRoleLogicalId} role`, statements));
+    }
+  } else if (providerRole !== undefined && isCustomRole(providerRole)) {
+    warnings.push(getMissingPermissionsWarning("the provider level role", statements));
+  } else if (Array.isArray(provider.iamRoleStatements)) {
+    // Deprecated since v2.24.0 of the Serverless Framework, but still supported
+    addStatements(provider.iamRoleStatements, statements);
+  } else {
+    provider.iam ??= {};
+    provider.iam.role ??= {};
+    provider.iam.role.statements ??= [];
+    addStatements(provider.iam.role.statements, statements);
+  }
+  return warnings;
+}
+
+// A role ARN or a reference to a role resource, as opposed to the settings of the generated default role
+function isCustomRole(role: any) {
+  return typeof role === "string" || Object.keys(role).some((key) => key === "Ref" || key.startsWith("Fn::"));
+}
+
+function addStatements(existingStatements: any[], statements: IamStatement[]) {
+  for (const statement of statements) {
+    const serializedStatement = JSON.stringify(statement);
+    if (!existingStatements.some((existingStatement) => JSON.stringify(existingStatement) === serializedStatement)) {
+      existingStatements.push(statement);
+    }
+  }
+}
+
+function getMissingPermissionsWarning(role: string, statements: IamStatement[]) {
+  const actions = statements.map(({ Action }) => Action.join(", ")).join(", ");
+  return `Warning: Unable to add the ${actions} permissions to ${role}, make sure it allows retrieving the Datadog API key.`;
+}
@@ -0,0 +1,76 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+/**
+ * Selects functions for the `include` and `exclude` options. A string is a glob pattern matched against
+ * the function name, an object matches the functions for which every field it sets matches.
+ */
+export type FunctionSelector =
+  | string
+  | {
+      // Glob pattern matched against the function name, e.g. `api-*`
+      name?: string;
+      // Glob pattern matched against the function runtime, e.g. `python3.*`
+      runtime?: string;
+      architecture?: string;
+      // Glob patterns matched against the function tags, e.g. `datadog: off`
+      tags?: { [key: string]: string };
+    };
+
+export interface SelectableFunction {
+  name: string;
+  runtime?: string;
+  architecture: string;
+  tags: { [key: string]: string };
+}
+
+export function matchesAnySelector(func: SelectableFunction, selectors: FunctionSelector[]) {
+  return selectors.some((selector) => matchesSelector(func, selector));
+}
+
+function matchesSelector(func: SelectableFunction, selector: FunctionSelector) {
+  if (typeof selector === "string") {
+    return matchesGlob(func.name, selector);
+  }
+  const { name, runtime, architecture, tags } = selector;
+  if (name !== undefined && !matchesGlob(func.name, name)) {
+    return false;
+  }
+  if (runtime !== undefined && !matchesGlob(func.runtime, runtime)) {
+    return false;
+  }
+  if (architecture !== undefined && func.architecture !== architecture) {
+    return false;
+  }
+  if (tags !== undefined) {
+    return Object.entries(tags).every(([key, pattern]) => matchesGlob(func.tags[key], `${pattern}`));
+  }
+  return true;
+}
+
+/**
+ * Matches a value against a glob pattern, where `*` matches any sequence of characters and `?` a single one.
+ */
+export function matchesGlob(value: string | undefined, pattern: string) {
+  if (value === undefined) {
+    return false;
+  }
+  const regexSource = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") {
+        return ".*";
+      }
+      if (char === "?") {
+        return ".";
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${regexSource}$`).test(`${value}`);
+}
@@ -0,0 +1,208 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import fs from "fs";
+import mock from "mock-fs";
+import Service from "serverless/classes/Service";
+import { promisify } from "util";
+import { Configuration } from "./env";
+import { getInstrumentedDefinition, getUninstrumentedDefinition, writeServiceDefinition } from "./service-definition";
+
+const forwarderArn = "arn:aws:lambda:us-east-1:123456789012:function:datadog-forwarder";
+
+describe("getInstrumentedDefinition", () => {
+  it("returns the functions, layers and forwarder subscriptions of the packaged service", () => {
+    const service = {
+      functions: {
+        node1: { handler: "/opt/nodejs/node_modules/datadog-lambda-js/handler.handler", environment: { DD_SITE: "a" } },
+      },
+      layers: {},
+      provider: {
+        compiledCloudFormationTemplate: {
+          Resources: {
+            Node1LogGroup: { Type: "AWS::Logs::LogGroup" },
+            Node1LogGroupSubscription: { Type: "AWS::Logs::SubscriptionFilter", Properties: {} },
+          },
+        },
+      },
+    } as any as Service;
+
+    expect(getInstrumentedDefinition(service, {} as Configuration)).toEqual({
+      functions: {
+        node1: { handler: "/opt/nodejs/node_modules/datadog-lambda-js/handler.handler", environment: { DD_SITE: "a" } },
+      },
+      resources: {
+        Resources: { Node1LogGroupSubscription: { Type: "AWS::Logs::SubscriptionFilter", Properties: {} } },
+      },
+    });
+  });
+
+  it("returns the tracing settings, role statements and resources the plugin adds", () => {
+    const apiKeySSMArn = "arn:aws:ssm:us-east-1:123456789012:parameter/datadog-api-key";
+    const userStatement = { Effect: "Allow", Action: ["s3:GetObject"], Resource: "*" };
+    const ssmStatement = { Effect: "Allow", Action: ["ssm:GetParameter"], Resource: apiKeySSMArn };
+    const kmsStatement = { Effect: "Allow", Action: ["kms:Decrypt"], Resource: "*" };
+    const service = {
+      functions: { edge1: { handler: "app.handler" } },
+      provider: {
+        tracing: { lambda: true, apiGateway: true },
+        iam: { role: { statements: [userStatement, ssmStatement, kmsStatement] } },
+        compiledCloudFormationTemplate: {
+          Resources: {
+            IamRoleLambdaExecution: {
+              Type: "AWS::IAM::Role",
+              Properties: {
+                Policies: [{ PolicyDocument: { Statement: [userStatement, ssmStatement, kmsStatement] } }],
+              },
+            },
+            Edge1EdgeLogGroup: { Type: "AWS::Logs::LogGroup", Properties: { LogGroupName: "/aws/lambda/edge1" } },
+            RestExecutionLogGroup: { Type: "AWS::Logs::LogGroup", Properties: { LogGroupName: "/aws/api" } },
+            DatadogApiKeySecret: { Type: "AWS::SecretsManager::Secret", Properties: {} },
+            Bucket: { Type: "AWS::S3::Bucket" },
+          },
+        },
+      },
+    } as any as Service;
+
+    expect(getInstrumentedDefinition(service, { apiKeySSMArn } as Configuration)).toEqual({
+      functions: { edge1: { handler: "app.handler" } },
+      provider: {
+        tracing: { lambda: true, apiGateway: true },
+        iam: { role: { statements: [ssmStatement, kmsStatement] } },
+      },
+      resources: {
+        Resources: {
+          Edge1EdgeLogGroup: { Type: "AWS::Logs::LogGroup", Properties: { LogGroupName: "/aws/lambda/edge1" } },
+          RestExecutionLogGroup: { Type: "AWS::Logs::LogGroup", Properties: { LogGroupName: "/aws/api" } },
+          DatadogApiKeySecret: { Type: "AWS::SecretsManager::Secret", Properties: {} },
+        },
+      },
+    });
+  });
+});
+
+describe("getUninstrumentedDefinition", () => {
+  it("removes what the plugin adds to the service", () => {
+    const service = {
+      functions: {
+        node1: {
+          handler: "/opt/nodejs/node_modules/datadog-lambda-js/handler.handler",
+          environment: {
+            DD_LAMBDA_HANDLER: "app.handler",
+            DD_SITE: "datadoghq.com",
+            DD_TRACE_ENABLED: true,
+            DD_SERVICE: "checkout",
+            DD_TRACE_SAMPLE_RATE: "0.5",
+            STAGE: "dev",
+          },
+          layers: [
+            "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:80",
+            { Ref: "DatadogExtensionLambdaLayer" },
+            "arn:aws:lambda:us-east-1:123456789012:layer:my-layer:1",
+          ],
+          tags: { dd_sls_plugin: "v5.0.0", team: "serverless" },
+          datadog: { enabled: true },
+        },
+        java1: {
+          handler: "com.example.Handler",
+          environment: {
+            JAVA_TOOL_OPTIONS:
+              '-javaagent:"/opt/java/lib/dd-java-agent.jar" -XX:+TieredCompilation -XX:TieredStopAtLevel=1',
+          },
+          layers: ["arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Extension:22"],
+        },
+      },
+      layers: {
+        DatadogExtension: { package: { artifact: "layers/extension.zip" } },
+        Shared: { path: "shared" },
+      },
+      resources: {
+        Resources: {
+          Node1LogGroupSubscription: {
+            Type: "AWS::Logs::SubscriptionFilter",
+            Properties: { DestinationArn: forwarderArn },
+          },
+          Bucket: { Type: "AWS::S3::Bucket" },
+        },
+      },
+      custom: { datadog: { forwarderArn }, other: { key: "value" } },
+      plugins: ["serverless-plugin-datadog", "serverless-offline"],
+    } as any as Service;
+
+    expect(getUninstrumentedDefinition(service, forwarderArn)).toEqual({
+      functions: {
+        node1: {
+          handler: "app.handler",
+          environment: { DD_SERVICE: "checkout", DD_TRACE_SAMPLE_RATE: "0.5", STAGE: "dev" },
+          layers: ["arn:aws:lambda:us-east-1:123456789012:layer:my-layer:1"],
+          tags: { team: "serverless" },
+        },
+        java1: { handler: "com.example.Handler" },
+      },
+      layers: { Shared: { path: "shared" } },
+      resources: { Resources: { Bucket: { Type: "AWS::S3::Bucket" } } },
+      custom: { other: { key: "value" } },
+      plugins: ["serverless-offline"],
+    });
+  });
+
+  it("removes the mirrored Datadog layers", () => {
+    const service = {
+      functions: {
+        node1: {
+          handler: "app.handler",
+          layers: [
+            "arn:aws:lambda:us-east-1:123456789012:layer:mirror-Datadog-Node18-x:100",
+            "arn:aws:lambda:us-east-1:123456789012:layer:mirror-shared:1",
+          ],
+        },
+      },
+    } as any as Service;
+
+    expect(getUninstrumentedDefinition(service, undefined, "mirror-")).toEqual({
+      functions: {
+        node1: { handler: "app.handler", layers: ["arn:aws:lambda:us-east-1:123456789012:layer:mirror-shared:1"] },
+      },
+    });
+  });
+
+  it("restores the command of container image functions", () => {
+    const service = {
+      functions: {
+        image1: {
+          image: { name: "my-image", command: ["datadog_lambda.handler.handler"] },
+          environment: { DD_LAMBDA_HANDLER: "app.handler" },
+        },
+      },
+      plugins: ["serverless-plugin-datadog"],
+    } as any as Service;
+
+    expect(getUninstrumentedDefinition(service)).toEqual({
+      functions: { image1: { image: { name: "my-image", command: ["app.handler"] } } },
+    });
+  });
+});
+
+describe("writeServiceDefinition", () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("writes YAML or JSON depending on the extension of the file", async () => {
+    mock({});
+    const definition = { functions: { node1: { handler: "app.handler" } } };
+    await writeServiceDefinition(definition, "/service/.serverless/definition.yml");
+    await writeServiceDefinition(definition, "/service/definition.json");
+
+    const readFile = promisify(fs.readFile);
+    expect(await readFile("/service/.serverless/definition.yml", "utf-8")).toEqual(
+      "functions:\n  node1:\n    handler: app.handler\n",
+    );
+    expect(JSON.parse(await readFile("/service/definition.json", "utf-8"))).toEqual(definition);
+  });
+});
@@ -0,0 +1,211 @@
+/*
+ * Unless explicitly stated otherwise all files in this repository are licensed
+ * under the Apache License Version 2.0.
+ *
+ * This product includes software developed at Datadog (https://www.datadoghq.com/).
+ * Copyright 2021 Datadog, Inc.
+ */
+
+import fs from "fs";
+import yaml from "js-yaml";
+import { dirname } from "path";
+import Service from "serverless/classes/Service";
+import { promisify } from "util";
+import { managedApiKeySecretLogicalId } from "./api-key-secret";
+import { Configuration, removeEnvConfiguration } from "./env";
+import { isAddedLogGroup } from "./forwarder";
+import {
+  ExtendedFunctionDefinition,
+  isDatadogLayer,
+  isFunctionDefinitionHandler,
+  LayerReference,
+  layerNames,
+} from "./layer";
+import { getLocalLayerName } from "./local-layers";
+import { defaultRoleLogicalId, getApiKeyPermissionStatements, IamStatement } from "./permissions";
+import { datadogHandlerEnvVar, getImageCommand } from "./wrapper";
+
+const subscriptionFilterType = "AWS::Logs::SubscriptionFilter";
+const pluginName = "serverless-plugin-datadog";
+const pluginTagKey = "dd_sls_plugin";
+
+export interface ServiceDefinition {
+  [key: string]: any;
+}
+
+/**
+ * Returns the parts of the service instrumented by the plugin, once the service has been packaged: the functions
+ * with their layers, environment variables, handlers and tags, the layers of the service, the tracing settings of
+ * the provider, the statements the plugin adds to the default role, and the resources the plugin adds to the
+ * template, i.e. the subscriptions to the Datadog Forwarder, the log groups created to subscribe to them and the
+ * managed API key secret.
+ */
+export function getInstrumentedDefinition(service: Service, config: Configuration): ServiceDefinition {
+  const definition: ServiceDefinition = { functions: clone(service.functions) };
+  if (service.layers !== undefined && Object.keys(service.layers).length > 0) {
+    definition.layers = clone(service.layers);
+  }
+
+  const provider = service.provider as any;
+  const providerDefinition: ServiceDefinition = {};
+  if (provider.tracing !== undefined) {
+    providerDefinition.tracing = clone(provider.tracing);
+  }
+  const statements = getAddedStatements(provider, getApiKeyPermissionStatements(config));
+  if (statements.length > 0) {
+    providerDefinition.iam = { role: { statements: clone(statements) } };
+  }
+  if (Object.keys(providerDefinition).length > 0) {
+    definition.provider = providerDefinition;
+  }
+
+  const resources = provider.compiledCloudFormationTemplate?.Resources ?? {};
+  const addedResources = pickBy(
+    resources,
+    (resource, logicalId) =>
+      resource.Type === subscriptionFilterType ||
+      logicalId === managedApiKeySecretLogicalId ||
+      isAddedLogGroup(logicalId),
+  );
+  if (Object.keys(addedResources).length > 0) {
+    definition.resources = { Resources: clone(addedResources) };
+  }
+  return definition;
+}
+
+/**
+ * Returns the service definition without what the plugin adds, to deploy the service without the plugin.
+ * @param forwarderArn - the Datadog Forwarder the subscriptions to remove point to
+ * @param namePrefix - the prefix of the names of the mirrored Datadog layers to remove, see `LayerSource`
+ */
+export function getUninstrumentedDefinition(
+  service: Service,
+  forwarderArn?: string,
+  namePrefix?: string,
+): ServiceDefinition {
+  const functions: { [name: string]: ExtendedFunctionDefinition } = clone(service.functions);
+  Object.values(functions).forEach((funcDef) => uninstrumentFunction(funcDef, namePrefix));
+  const definition: ServiceDefinition = { functions };
+
+  const localLayerNames = Object.keys(layerNames).map(getLocalLayerName);
+  const layers = pickBy(service.layers ?? {}, (_layer, name) => !localLayerNames.includes(name));
+  if (Object.keys(layers).length > 0) {
+    definition.layers = clone(layers);
+  }
+
+  const resources = clone(service.resources ?? {});
+  for (const [logicalId, resource] of Object.entries(resources.Resources ?? {})) {
+    if (isForwarderSubscription(resource, forwarderArn)) {
+      delete resources.Resources[logicalId];
+    }
+  }
+  if (resources.Resources !== undefined && Object.keys(resources.Resources).length === 0) {
+    delete resources.Resources;
+  }
+  if (Object.keys(resources).length > 0) {
+    definition.resources = resources;
+  }
+
+  const { datadog, ...custom } = service.custom ?? {};
+  if (Object.keys(custom).length > 0) {
+    definition.custom = clone(custom);
+  }
+  const plugins = removePlugin(service.plugins);
+  if (plugins !== undefined) {
+    definition.plugins = plugins;
+  }
+  return definition;
+}
+
+/**
+ * Writes a service definition to a YAML file, or a JSON file when the path doesn't end with `.yml` or `.yaml`.
+ */
+export async function writeServiceDefinition(definition: ServiceDefinition, filePath: string) {
+  const content = /\.ya?ml$/i.test(filePath)
+    ? yaml.dump(definition, { noRefs: true })
+    : `${JSON.stringify(definition, undefined, 2)}\n`;
+  await promisify(fs.mkdir)(dirname(filePath), { recursive: true });
+  await promisify(fs.writeFile)(filePath, content);
+}
+
+function uninstrumentFunction(funcDef: ExtendedFunctionDefinition, namePrefix?: string) {
+  const environment = funcDef.environment ?? {};
+  const originalHandler = environment[datadogHandlerEnvVar];
+  if (originalHandler !== undefined) {
+    const command = getImageCommand(funcDef.image);
+    if (command !== undefined) {
+      command[0] = originalHandler;
+    } else if (isFunctionDefinitionHandler(funcDef)) {
+      funcDef.handler = originalHandler;
+    }
+  }
+  delete environment[datadogHandlerEnvVar];
+  removeEnvConfiguration(environment);
+  if (funcDef.environment !== undefined && Object.keys(funcDef.environment).length === 0) {
+    delete funcDef.environment;
+  }
+
+  const localLayerRefs = Object.keys(layerNames).map((layerKey) => `${getLocalLayerName(layerKey)}LambdaLayer`);
+  const layers = ((funcDef as any).layers ?? []) as LayerReference[];
+  const remainingLayers = layers.filter(
+    (layer) => !isDatadogLayer(layer, namePrefix) && (typeof layer === "string" || !localLayerRefs.includes(layer.Ref)),
+  );
+  if (remainingLayers.length > 0) {
+    (funcDef as any).layers = remainingLayers;
+  } else {
+    delete (funcDef as any).layers;
+  }
+
+  if (funcDef.tags !== undefined) {
+    delete funcDef.tags[pluginTagKey];
+    if (Object.keys(funcDef.tags).length === 0) {
+      delete funcDef.tags;
+    }
+  }
+  delete funcDef.datadog;
+}
+
+// The statements are added to the compiled default role, or to the provider level statements it's compiled from
+function getAddedStatements(provider: any, statements: IamStatement[]) {
+  const existingStatements = [
+    ...(provider.compiledCloudFormationTemplate?.Resources?.[defaultRoleLogicalId]?.Properties?.Policies?.[0]
+      ?.PolicyDocument?.Statement ?? []),
+    ...(provider.iam?.role?.statements ?? []),
+    ...(provider.iamRoleStatements ?? []),
+  ].map((statement) => JSON.stringify(statement));
+  return statements.filter((statement) => existingStatements.includes(JSON.stringify(statement)));
+}
+
+function isForwarderSubscription(resource: any, forwarderArn?: string) {
+  return (
+    forwarderArn !== undefined &&
+    resource?.Type === subscriptionFilterType &&
+    resource.Properties?.DestinationArn === forwarderArn
+  );
+}
+
+// Plugins are listed as an array, or under `modules` along with a `localPath`
+function removePlugin(plugins: any) {
+  if (Array.isArray(plugins)) {
+    const remainingPlugins = plugins.filter((plugin) => plugin !== pluginName);
+    return remainingPlugins.length > 0 ? remainingPlugins : undefined;
+  }
+  if (plugins?.modules !== undefined) {
+    return { ...plugins, modules: plugins.modules.filter((plugin: string) => plugin !== pluginName) };
+  }
+  return plugins;
+}
+
+function pickBy(values: { [key: string]: any }, predicate: (value: any, key: string) => boolean) {
+  const picked: { [key: string]: any } = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (predicate(value, key)) {
+      picked[key] = value;
+    }
+  }
+  return picked;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
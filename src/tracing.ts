@@ -19,9 +19,23 @@ export enum TracingMode {
   NONE,
 }
 
-export function enableTracing(service: Service, tracingMode: TracingMode, handlers: FunctionInfo[]) {
+/**
+ * Enables X-Ray tracing for the whole service, or only for the given functions with `functionLevel`, when the
+ * `datadog` block of these functions sets `enableXrayTracing` differently from the service.
+ */
+export function enableTracing(
+  service: Service,
+  tracingMode: TracingMode,
+  handlers: FunctionInfo[],
+  functionLevel = false,
+) {
   const provider = service.provider as any;
-  if (tracingMode === TracingMode.XRAY || tracingMode === TracingMode.HYBRID) {
+  const xrayEnabled = tracingMode === TracingMode.XRAY || tracingMode === TracingMode.HYBRID;
+  if (functionLevel) {
+    handlers.forEach(({ handler }) => {
+      (handler as any).tracing ??= xrayEnabled ? "Active" : "PassThrough";
+    });
+  } else if (xrayEnabled) {
     provider.tracing = {
       apiGateway: true,
       lambda: true,
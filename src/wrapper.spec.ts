@@ -7,10 +7,37 @@
  */
 
 import { redirectHandlers } from "./wrapper";
-import { datadogHandlerEnvVar, jsHandler, jsHandlerWithLayers, pythonHandler } from "./wrapper";
-import { RuntimeType } from "./layer";
+import {
+  datadogHandlerEnvVar,
+  getCustomHandler,
+  getManualWrapperSnippet,
+  jsHandler,
+  jsHandlerWithLayers,
+  pythonHandler,
+} from "./wrapper";
+import { applyLambdaLibraryLayers, FunctionInfo, LayerCatalog, RuntimeType } from "./layer";
 import mock from "mock-fs";
 
+const layerCatalog: LayerCatalog = {
+  regions: {
+    "us-east-1": {
+      "nodejs14.x": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:80",
+      "python3.9": "arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Python39:60",
+    },
+  },
+};
+
+// Adds the Datadog library layer the handlers are redirected to when `addLayers` is set
+function addLibraryLayers(funcs: FunctionInfo[]) {
+  const service = { provider: { region: "us-east-1" } } as any;
+  const runtimeFuncs = funcs.map((func) => ({
+    ...func,
+    runtime: func.type === RuntimeType.NODE ? "nodejs14.x" : "python3.9",
+  }));
+  applyLambdaLibraryLayers(service, runtimeFuncs, layerCatalog);
+  return funcs;
+}
+
 describe("redirectHandlers", () => {
   afterAll(() => {
     mock.restore();
@@ -25,13 +52,13 @@ describe("redirectHandlers", () => {
       events: [],
     };
     redirectHandlers(
-      [
+      addLibraryLayers([
         {
           name: "my-lambda",
           type: RuntimeType.NODE,
           handler: handler,
         },
-      ],
+      ]),
       true,
     );
     expect(handler.handler).toEqual(jsHandlerWithLayers);
@@ -58,6 +85,38 @@ describe("redirectHandlers", () => {
     expect(handler.handler).toEqual(jsHandler);
   });
 
+  it("redirects js handlers to a module and an export the Node.js runtime resolves", async () => {
+    mock({});
+    const layerHandler = { name: "layer-lambda", handler: "mydir/func.myhandler", events: [] };
+    const bundledHandler = { name: "bundled-lambda", handler: "mydir/func.myhandler", events: [] };
+    redirectHandlers(addLibraryLayers([{ name: "layer-lambda", type: RuntimeType.NODE, handler: layerHandler }]), true);
+    redirectHandlers([{ name: "bundled-lambda", type: RuntimeType.NODE, handler: bundledHandler }], false);
+    // The runtime splits the handler at its first dot, into the module to load and the name of its export
+    const splitHandler = (handler: string) => [
+      handler.slice(0, handler.indexOf(".")),
+      handler.slice(handler.indexOf(".") + 1),
+    ];
+    expect(splitHandler(layerHandler.handler)).toEqual([
+      "/opt/nodejs/node_modules/datadog-lambda-js/handler",
+      "handler",
+    ]);
+    expect(splitHandler(bundledHandler.handler)).toEqual(["node_modules/datadog-lambda-js/dist/handler", "handler"]);
+  });
+
+  it("doesn't redirect js and python handlers to the layer when the library layer wasn't added", async () => {
+    mock({});
+    const nodeHandler = { name: "node-lambda", handler: "mydir/func.myhandler", events: [] };
+    const pythonHandler_ = { name: "python-lambda", handler: "mydir.func.myhandler", events: [] };
+    const funcs = [
+      { name: "node-lambda", type: RuntimeType.NODE, runtime: "nodejs18.x", handler: nodeHandler },
+      { name: "python-lambda", type: RuntimeType.PYTHON, runtime: "python3.12", handler: pythonHandler_ },
+    ];
+    applyLambdaLibraryLayers({ provider: { region: "us-east-1" } } as any, funcs, layerCatalog);
+    redirectHandlers(funcs, true);
+    expect(nodeHandler).toEqual({ name: "node-lambda", handler: "mydir/func.myhandler", events: [] });
+    expect(pythonHandler_).toEqual({ name: "python-lambda", handler: "mydir.func.myhandler", events: [] });
+  });
+
   it("does not push duplicate versions of redirected handler", async () => {
     mock({});
     const handler1 = {
@@ -73,7 +132,7 @@ describe("redirectHandlers", () => {
       events: [],
     };
     redirectHandlers(
-      [
+      addLibraryLayers([
         {
           name: "my-lambda",
           type: RuntimeType.PYTHON,
@@ -84,13 +143,29 @@ describe("redirectHandlers", () => {
           type: RuntimeType.PYTHON,
           handler: handler2,
         },
-      ],
+      ]),
       true,
     );
     expect(handler1.handler).toEqual(pythonHandler);
     expect(handler2.handler).toEqual(pythonHandler);
   });
 
+  it("keeps the original handler when redirecting a handler twice", async () => {
+    mock({});
+    const handler = { name: "my-lambda", handler: "mydir/func.myhandler", events: [] };
+    const funcs = addLibraryLayers([{ name: "my-lambda", type: RuntimeType.NODE, handler }]);
+    redirectHandlers(funcs, true);
+    redirectHandlers(funcs, true);
+    expect(handler).toEqual({
+      name: "my-lambda",
+      handler: jsHandlerWithLayers,
+      layers: ["arn:aws:lambda:us-east-1:464622532012:layer:Datadog-Node14-x:80"],
+      environment: { [datadogHandlerEnvVar]: "mydir/func.myhandler" },
+      events: [],
+      package: { exclude: [], include: [] },
+    });
+  });
+
   it("redirects handler and sets env variable to original handler", async () => {
     mock({});
     const handler = {
@@ -187,4 +262,193 @@ describe("redirectHandlers", () => {
     );
     expect(handler.handler).toEqual(customHandler);
   });
+
+  it("sets the custom handlers of the runtime family and name of each function", async () => {
+    mock({});
+    const nodeHandler = { name: "node-lambda", handler: "node.handler", events: [] };
+    const pythonHandler_ = { name: "python-lambda", handler: "app.handler", events: [] };
+    const otherNodeHandler = { name: "other-lambda", handler: "other.handler", events: [] };
+    redirectHandlers(
+      [
+        { name: "node-lambda", type: RuntimeType.NODE, handler: nodeHandler },
+        { name: "python-lambda", type: RuntimeType.PYTHON, handler: pythonHandler_ },
+        { name: "other-lambda", type: RuntimeType.NODE, handler: otherNodeHandler },
+      ],
+      true,
+      {
+        node: "node-wrapper.handler",
+        python: "python_wrapper.handler",
+        functions: { "other-lambda": "other.wrapper" },
+      },
+    );
+    expect(nodeHandler.handler).toEqual("node-wrapper.handler");
+    expect(pythonHandler_.handler).toEqual("python_wrapper.handler");
+    expect(otherNodeHandler.handler).toEqual("other.wrapper");
+  });
+
+  it("redirects the command of container image functions", async () => {
+    mock({});
+    const handler = {
+      name: "my-lambda",
+      image: {
+        name: "my-image",
+        command: ["app.handler"],
+        entryPoint: ["/usr/local/bin/npx", "aws-lambda-ric"],
+      },
+      events: [],
+    };
+    redirectHandlers(
+      [
+        {
+          name: "my-lambda",
+          type: RuntimeType.NODE,
+          handler: handler,
+        },
+      ],
+      true,
+    );
+    expect(handler).toEqual({
+      name: "my-lambda",
+      image: {
+        name: "my-image",
+        command: [jsHandler],
+        entryPoint: ["/usr/local/bin/npx", "aws-lambda-ric"],
+      },
+      environment: { [datadogHandlerEnvVar]: "app.handler" },
+      events: [],
+    });
+  });
+
+  it("doesn't redirect container image functions whose runtime is unknown", async () => {
+    mock({});
+    const handler = { name: "my-lambda", image: { name: "my-image", command: ["app.handler"] }, events: [] };
+    redirectHandlers([{ name: "my-lambda", type: RuntimeType.UNSUPPORTED, handler }], false, "wrapper.handler");
+    expect(handler).toEqual({ name: "my-lambda", image: { name: "my-image", command: ["app.handler"] }, events: [] });
+  });
+
+  it("doesn't redirect container image functions without a command override", async () => {
+    mock({});
+    const handler = {
+      name: "my-lambda",
+      image: "123456789012.dkr.ecr.us-east-1.amazonaws.com/my-image:latest",
+      events: [],
+    };
+    redirectHandlers(
+      [
+        {
+          name: "my-lambda",
+          type: RuntimeType.PYTHON,
+          handler: handler,
+        },
+      ],
+      true,
+    );
+    expect(handler).toEqual({
+      name: "my-lambda",
+      image: "123456789012.dkr.ecr.us-east-1.amazonaws.com/my-image:latest",
+      events: [],
+    });
+  });
+});
+
+describe("getCustomHandler", () => {
+  const func = { name: "my-lambda", type: RuntimeType.PYTHON, handler: { handler: "app.handler", events: [] } };
+
+  it("applies a custom handler set as a string to every function", () => {
+    expect(getCustomHandler(func, "wrapper.handler")).toEqual("wrapper.handler");
+    expect(getCustomHandler(func)).toBeUndefined();
+  });
+
+  it("prefers the custom handler of the function name to the one of the runtime family", () => {
+    expect(getCustomHandler(func, { python: "wrapper.handler" })).toEqual("wrapper.handler");
+    expect(getCustomHandler(func, { python: "wrapper.handler", functions: { "my-lambda": "mine.handler" } })).toEqual(
+      "mine.handler",
+    );
+    expect(getCustomHandler(func, { node: "wrapper.handler" })).toBeUndefined();
+  });
+});
+
+describe("getManualWrapperSnippet", () => {
+  it("shows how to wrap java handlers", () => {
+    const handler = { handler: "com.example.Handler::process", events: [] };
+    expect(getManualWrapperSnippet({ name: "java-function", type: RuntimeType.JAVA, handler })).toEqual(
+      [
+        "package com.example;",
+        "",
+        "import com.amazonaws.services.lambda.runtime.Context;",
+        "import com.datadoghq.datadog_lambda_java.DDLambda;",
+        "import java.util.Map;",
+        "",
+        "public class Handler {",
+        "  // Replace Map<String, Object> and Object by the event and return types of the current handler",
+        "  public Object process(Map<String, Object> event, Context context) {",
+        "    DDLambda ddl = new DDLambda(context);",
+        "    try {",
+        "      // Current code of process, returning its result",
+        "      return null;",
+        "    } finally {",
+        "      ddl.finish();",
+        "    }",
+        "  }",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  it("implements RequestHandler in the snippet of java handlers using the default method", () => {
+    const handler = { handler: "Handler", events: [] };
+    expect(getManualWrapperSnippet({ name: "java-function", type: RuntimeType.JAVA, handler })).toEqual(
+      [
+        "import com.amazonaws.services.lambda.runtime.Context;",
+        "import com.amazonaws.services.lambda.runtime.RequestHandler;",
+        "import com.datadoghq.datadog_lambda_java.DDLambda;",
+        "import java.util.Map;",
+        "",
+        "public class Handler implements RequestHandler<Map<String, Object>, Object> {",
+        "  // Replace Map<String, Object> and Object by the event and return types of the current handler",
+        "  @Override",
+        "  public Object handleRequest(Map<String, Object> event, Context context) {",
+        "    DDLambda ddl = new DDLambda(context);",
+        "    try {",
+        "      // Current code of handleRequest, returning its result",
+        "      return null;",
+        "    } finally {",
+        "      ddl.finish();",
+        "    }",
+        "  }",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  it("shows how to wrap ruby handlers", () => {
+    const handler = { handler: "lambda_function.Handlers::Orders.process", events: [] };
+    expect(getManualWrapperSnippet({ name: "ruby-function", type: RuntimeType.RUBY, handler })).toEqual(
+      [
+        "require 'datadog/lambda'",
+        "",
+        "Datadog::Lambda.configure_apm do |c|",
+        "  # Enable the instrumentation of the gems used by the function",
+        "end",
+        "",
+        "def self.process(event:, context:)",
+        "  Datadog::Lambda.wrap(event, context) do",
+        "    # Current code of process",
+        "  end",
+        "end",
+      ].join("\n"),
+    );
+  });
+
+  it("has no snippet for redirected handlers and .NET handlers instrumented by the tracer", () => {
+    const handler = { handler: "my-func.handler", events: [] };
+    expect(getManualWrapperSnippet({ name: "node-function", type: RuntimeType.NODE, handler })).toBeUndefined();
+    expect(
+      getManualWrapperSnippet({ name: "ruby-function", type: RuntimeType.RUBY, handler }, "custom.handler"),
+    ).toBeUndefined();
+    const dotnetHandler = { handler: "Assembly::Namespace.Function::Handler", events: [] };
+    expect(
+      getManualWrapperSnippet({ name: "dotnet-function", type: RuntimeType.DOTNET, handler: dotnetHandler }),
+    ).toBeUndefined();
+  });
 });
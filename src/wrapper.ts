@@ -7,7 +7,16 @@
  */
 
 import { FunctionDefinitionHandler } from "serverless";
-import { FunctionInfo, isFunctionDefinitionHandler, RuntimeType } from "./layer";
+import { CustomHandlerMap } from "./env";
+import {
+  FunctionInfo,
+  hasLibraryLayer,
+  ImageDefinition,
+  isFunctionDefinitionHandler,
+  isFunctionDefinitionImage,
+  runtimeRegistry,
+  RuntimeType,
+} from "./layer";
 
 export const datadogHandlerEnvVar = "DD_LAMBDA_HANDLER";
 export const pythonHandler = "datadog_lambda.handler.handler";
@@ -17,10 +26,16 @@ export const jsHandler = "node_modules/datadog-lambda-js/dist/handler.handler";
 /**
  * For each lambda function, redirects handler to the Datadog handler for the given runtime,
  * and sets Datadog environment variable `DD_LAMBDA_HANDLER` to the original handler.
+ * With `addLayers`, only the functions the Datadog library layer was added to are redirected. The Datadog handler
+ * of Node functions imports their handler dynamically, whether it's a CommonJS or an ES module.
  */
-export function redirectHandlers(funcs: FunctionInfo[], addLayers: boolean, customHandler?: string) {
+export function redirectHandlers(funcs: FunctionInfo[], addLayers: boolean, customHandler?: string | CustomHandlerMap) {
   funcs.forEach((func) => {
-    const handler = getDDHandler(func.type, addLayers, customHandler);
+    if (isFunctionDefinitionImage(func.handler)) {
+      redirectImageCommand(func, customHandler);
+      return;
+    }
+    const handler = getDDHandler(func, addLayers, customHandler);
     if (handler === undefined) {
       return;
     }
@@ -28,6 +43,10 @@ export function redirectHandlers(funcs: FunctionInfo[], addLayers: boolean, cust
     if (!isFunctionDefinitionHandler(funcDef)) {
       return;
     }
+    // Redirecting again would replace the original handler in `DD_LAMBDA_HANDLER` by the Datadog handler
+    if (isDatadogHandler(funcDef.handler, getCustomHandler(func, customHandler))) {
+      return;
+    }
     setEnvDatadogHandler(funcDef);
 
     funcDef.handler = handler;
@@ -43,14 +62,154 @@ export function redirectHandlers(funcs: FunctionInfo[], addLayers: boolean, cust
   });
 }
 
-function getDDHandler(lambdaRuntime: RuntimeType | undefined, addLayers: boolean, customHandler?: string) {
-  if (lambdaRuntime === undefined) {
+// Keys of `CustomHandlerMap` for the runtime families
+const runtimeFamilies: { [type: number]: keyof Omit<CustomHandlerMap, "functions"> | undefined } = {
+  [RuntimeType.NODE]: "node",
+  [RuntimeType.PYTHON]: "python",
+  [RuntimeType.DOTNET]: "dotnet",
+  [RuntimeType.JAVA]: "java",
+  [RuntimeType.RUBY]: "ruby",
+  [RuntimeType.GO]: "go",
+};
+
+/**
+ * Returns the custom handler of a function, the one set for its name taking precedence over the one set for
+ * its runtime family when `customHandler` is a map.
+ */
+export function getCustomHandler(func: FunctionInfo, customHandler?: string | CustomHandlerMap) {
+  if (customHandler === undefined || typeof customHandler === "string") {
+    return customHandler;
+  }
+  const runtimeFamily = runtimeFamilies[func.type];
+  return customHandler.functions?.[func.name] ?? (runtimeFamily && customHandler[runtimeFamily]);
+}
+
+/**
+ * Returns the Datadog handler of a container image function, which must be part of the image since layers
+ * can't be added to it. Images without a function level `runtime` are left as is, their runtime is unknown.
+ */
+export function getDDImageHandler(func: FunctionInfo, customHandler?: string | CustomHandlerMap) {
+  if (func.type === RuntimeType.UNSUPPORTED) {
+    return;
+  }
+  return getDDHandler(func, false, customHandler);
+}
+
+/**
+ * Returns the `command` override of a container image, whose first item is the handler of the function.
+ */
+export function getImageCommand(image: ImageDefinition | undefined) {
+  if (typeof image !== "object" || image.command === undefined || image.command.length === 0) {
+    return;
+  }
+  return image.command;
+}
+
+// Only the `command` of the image can be redirected, the `entryPoint` (e.g. the runtime interface client of
+// a custom base image) is left as is so it loads the Datadog handler instead of the original one
+function redirectImageCommand(func: FunctionInfo, customHandler?: string | CustomHandlerMap) {
+  const image = func.handler.image;
+  const command = getImageCommand(image);
+  const handler = getDDImageHandler(func, customHandler);
+  if (command === undefined || handler === undefined) {
     return;
   }
-  if (customHandler) {
-    return customHandler;
+  const [originalHandler, ...args] = command;
+  if (originalHandler === handler) {
+    return;
+  }
+  const environment = func.handler.environment ?? {};
+  environment[datadogHandlerEnvVar] = originalHandler;
+  func.handler.environment = environment;
+  (image as { command: string[] }).command = [handler, ...args];
+}
+
+/**
+ * Returns a snippet showing how to wrap the handler of a function with the Datadog library, for the runtimes
+ * whose handler can't be redirected since Datadog doesn't publish a handler wrapping the original one.
+ */
+export function getManualWrapperSnippet(func: FunctionInfo, customHandler?: string | CustomHandlerMap) {
+  const funcDef = func.handler;
+  if (!isFunctionDefinitionHandler(funcDef) || getDDHandler(func, false, customHandler) !== undefined) {
+    return;
+  }
+  switch (func.type) {
+    case RuntimeType.JAVA:
+      return getJavaWrapperSnippet(funcDef.handler);
+    case RuntimeType.RUBY:
+      return getRubyWrapperSnippet(funcDef.handler);
+  }
+}
+
+// Java handlers are `package.Class::method`, the method defaulting to `handleRequest`, the method of the
+// `RequestHandler` interface. `DDLambda(context)` accepts any event, unlike its constructors taking the event.
+function getJavaWrapperSnippet(handler: string) {
+  const [qualifiedClassName, methodName = "handleRequest"] = handler.split("::");
+  const packageName = qualifiedClassName.slice(0, Math.max(qualifiedClassName.lastIndexOf("."), 0));
+  const className = qualifiedClassName.slice(qualifiedClassName.lastIndexOf(".") + 1);
+  const isRequestHandler = methodName === "handleRequest";
+  return [
+    ...(packageName ? [`package ${packageName};`, ""] : []),
+    "import com.amazonaws.services.lambda.runtime.Context;",
+    ...(isRequestHandler ? ["import com.amazonaws.services.lambda.runtime.RequestHandler;"] : []),
+    "import com.datadoghq.datadog_lambda_java.DDLambda;",
+    "import java.util.Map;",
+    "",
+    isRequestHandler
+      ? `public class ${className} implements RequestHandler<Map<String, Object>, Object> {`
+      : `public class ${className} {`,
+    "  // Replace Map<String, Object> and Object by the event and return types of the current handler",
+    ...(isRequestHandler ? ["  @Override"] : []),
+    `  public Object ${methodName}(Map<String, Object> event, Context context) {`,
+    "    DDLambda ddl = new DDLambda(context);",
+    "    try {",
+    `      // Current code of ${methodName}, returning its result`,
+    "      return null;",
+    "    } finally {",
+    "      ddl.finish();",
+    "    }",
+    "  }",
+    "}",
+  ].join("\n");
+}
+
+// Ruby handlers are `file.method`, or `file.Module::Class.method` for class methods
+function getRubyWrapperSnippet(handler: string) {
+  const methodName = handler.slice(handler.lastIndexOf(".") + 1);
+  const isClassMethod = handler.includes("::");
+  return [
+    "require 'datadog/lambda'",
+    "",
+    "Datadog::Lambda.configure_apm do |c|",
+    "  # Enable the instrumentation of the gems used by the function",
+    "end",
+    "",
+    `def ${isClassMethod ? "self." : ""}${methodName}(event:, context:)`,
+    "  Datadog::Lambda.wrap(event, context) do",
+    `    # Current code of ${methodName}`,
+    "  end",
+    "end",
+  ].join("\n");
+}
+
+function getDDHandler(func: FunctionInfo, addLayers: boolean, customHandler?: string | CustomHandlerMap) {
+  const { type, runtime } = func;
+  if (type === undefined) {
+    return;
+  }
+  const funcCustomHandler = getCustomHandler(func, customHandler);
+  if (funcCustomHandler) {
+    return funcCustomHandler;
   }
-  switch (lambdaRuntime) {
+  if (runtime !== undefined && runtimeRegistry[runtime]?.redirectHandler === false) {
+    return;
+  }
+  // The Datadog handler of the layer only exists once the layer is added, which Datadog may not publish for
+  // the runtime or region of the function
+  if (addLayers && !hasLibraryLayer(func)) {
+    return;
+  }
+  switch (type) {
     case RuntimeType.NODE:
       return addLayers ? jsHandlerWithLayers : jsHandler;
     case RuntimeType.PYTHON:
@@ -58,6 +217,10 @@ function getDDHandler(lambdaRuntime: RuntimeType | undefined, addLayers: boolean
   }
 }
 
+function isDatadogHandler(handler: string, customHandler?: string | CustomHandlerMap) {
+  return [pythonHandler, jsHandlerWithLayers, jsHandler, customHandler].includes(handler);
+}
+
 function setEnvDatadogHandler(func: FunctionDefinitionHandler) {
   const originalHandler = func.handler;
   const environment = func.environment ?? {};